@@ -0,0 +1,91 @@
+import type { WebSocketData } from "./models";
+
+/**
+ * Translates between application messages and WebSocket frames.
+ *
+ * `In` is what the server sends, `Out` is what the client sends.
+ * `decode()` may throw; the error is reported as a `decodeerror` event.
+ */
+export interface Codec<In, Out> {
+  encode(message: Out): WebSocketData;
+  decode(data: unknown): In;
+  /**
+   * `binaryType` the socket should use so that `decode()` receives the expected type
+   */
+  binaryType?: BinaryType;
+}
+
+/**
+ * Passes frames through unchanged. Used when no codec is configured
+ */
+export const rawCodec: Codec<unknown, WebSocketData> = {
+  encode: (message) => message,
+  decode: (data) => data,
+};
+
+/**
+ * JSON text frames
+ */
+export const jsonCodec = <In = unknown, Out = unknown>(): Codec<In, Out> => ({
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => {
+    if (typeof data !== "string") {
+      throw new TypeError("Expected a text frame");
+    }
+
+    return JSON.parse(data) as In;
+  },
+});
+
+const LENGTH_PREFIX_BYTES = 4;
+
+/**
+ * Binary frames made of one or more parts, each prefixed with its byte length
+ * as a big-endian uint32. Handy for a header and a payload in a single frame.
+ */
+export const lengthPrefixedCodec = (): Codec<Uint8Array[], Uint8Array[]> => ({
+  binaryType: "arraybuffer",
+  encode: (parts) => {
+    const total = parts.reduce(
+      (sum, part) => sum + LENGTH_PREFIX_BYTES + part.byteLength,
+      0,
+    );
+    const frame = new Uint8Array(total);
+    const view = new DataView(frame.buffer);
+
+    let offset = 0;
+    for (const part of parts) {
+      view.setUint32(offset, part.byteLength);
+      frame.set(part, offset + LENGTH_PREFIX_BYTES);
+      offset += LENGTH_PREFIX_BYTES + part.byteLength;
+    }
+
+    return frame.buffer;
+  },
+  decode: (data) => {
+    if (!(data instanceof ArrayBuffer)) {
+      throw new TypeError("Expected an ArrayBuffer frame");
+    }
+
+    const view = new DataView(data);
+    const parts: Uint8Array[] = [];
+
+    let offset = 0;
+    while (offset < data.byteLength) {
+      if (offset + LENGTH_PREFIX_BYTES > data.byteLength) {
+        throw new RangeError("Truncated length prefix");
+      }
+
+      const length = view.getUint32(offset);
+      const start = offset + LENGTH_PREFIX_BYTES;
+      if (start + length > data.byteLength) {
+        throw new RangeError("Truncated frame part");
+      }
+
+      parts.push(new Uint8Array(data, start, length));
+      offset = start + length;
+    }
+
+    return parts;
+  },
+});
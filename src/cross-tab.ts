@@ -0,0 +1,627 @@
+import { LeaderChangedError } from "./errors";
+import {
+  ConnectionStateChangeEvent,
+  type GreatWebSocketEventListener,
+  LeaderChangeEvent,
+  MessageReceivedEvent,
+} from "./events";
+import {
+  type CrossTabChannel,
+  type CrossTabChannelFactory,
+  defaultChannelFactory,
+  LeaderElection,
+  type LeaderElectionOptions,
+  randomTabId,
+} from "./leader-election";
+import { defaultLogger, type Logger } from "./logger";
+import {
+  ConnectionState,
+  TransitionReason,
+  type WebSocketData,
+} from "./models";
+import type { RemoteCommand, Subscription } from "./rpc";
+import type { GreatWebSocket } from "./websocket";
+
+/**
+ * A command by name, turned into a `RemoteCommand` by the leader tab through `CrossTabOptions.commands`.
+ * `params` must survive structured cloning
+ */
+export interface SharedCommand {
+  name: string;
+  params?: unknown;
+}
+
+export interface CrossTabOptions<Out = WebSocketData>
+  extends LeaderElectionOptions {
+  /**
+   * Command factories by name, used for `call()` and `subscribe()`. Every tab should register the same ones
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: params are whatever the calling tab passes
+  commands?: Record<string, (params: any) => RemoteCommand<Out>>;
+  /**
+   * Defaults to `BroadcastChannel`
+   */
+  channel?: CrossTabChannelFactory;
+  logger?: Logger;
+}
+
+export interface CrossTabEventMap<In = unknown> {
+  statechange: ConnectionStateChangeEvent;
+  message: MessageReceivedEvent<In>;
+  leaderchange: LeaderChangeEvent;
+}
+
+interface SharedSubscription {
+  subscribe: SharedCommand;
+  unsubscribe: SharedCommand;
+}
+
+type Request =
+  | { kind: "send"; from: string; message: unknown }
+  | {
+      kind: "call";
+      from: string;
+      id: number;
+      command: SharedCommand;
+      timeout?: number;
+    }
+  | ({ kind: "subscribe"; from: string; key: string } & SharedSubscription)
+  | { kind: "unsubscribe"; from: string; key: string }
+  | { kind: "leave"; from: string }
+  | { kind: "sync"; from: string };
+
+type Reply =
+  | { kind: "result"; to: string; id: number; value: unknown }
+  | {
+      kind: "failure";
+      to: string;
+      id: number;
+      error: { name: string; message: string };
+    };
+
+type ChannelMessage =
+  | (Request & { to: string })
+  | Reply
+  | {
+      kind: "state";
+      state: ConnectionState;
+      previousState: ConnectionState | null;
+      reason: TransitionReason | null;
+    }
+  | { kind: "message"; message: unknown; data: unknown };
+
+interface PendingCall {
+  command: string;
+  sent: boolean;
+  resolve(value: unknown): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Shares one `GreatWebSocket` between all tabs of the same origin. The elected leader tab owns the connection;
+ * the other tabs proxy `send()`, `call()` and `subscribe()` through it and receive its messages and state changes.
+ * When the leader goes away, another tab takes over and every tab re-registers its subscriptions
+ */
+export class CrossTabWebSocket<
+  In = unknown,
+  Out = WebSocketData,
+> extends EventTarget {
+  readonly id = randomTabId();
+
+  #active = false;
+  #channel: CrossTabChannel | null = null;
+  #election: LeaderElection | null = null;
+  #socket: GreatWebSocket<In, Out> | null = null;
+  #state: ConnectionState = ConnectionState.Disconnected;
+  #nextCallId = 0;
+  #pendingCalls = new Map<number, PendingCall>();
+  #queue: Request[] = [];
+  /**
+   * Sends and calls the leader holds back until its socket first connects or fails, `null` once it did
+   */
+  #held: Request[] | null = null;
+  #subscriptions = new Map<string, SharedSubscription>();
+  #shared = new Map<
+    string,
+    { tabs: Set<string>; subscription: Subscription }
+  >();
+
+  /**
+   * @param name - channel name, the same in every tab sharing the connection
+   * @param createSocket - builds the real connection when this tab becomes the leader
+   */
+  constructor(
+    private readonly name: string,
+    private readonly createSocket: () => GreatWebSocket<In, Out>,
+    private readonly options: CrossTabOptions<Out> = {},
+  ) {
+    super();
+  }
+
+  get active() {
+    return this.#active;
+  }
+
+  /**
+   * Connection state of the leader tab
+   */
+  get state() {
+    return this.#state;
+  }
+
+  /**
+   * Id of the leader tab, `null` while electing
+   */
+  get leader() {
+    return this.#election?.leader ?? null;
+  }
+
+  get isLeader() {
+    return this.#election?.isLeader ?? false;
+  }
+
+  /**
+   * Join the tabs sharing the connection and take part in leader election
+   */
+  activate() {
+    if (this.#active) {
+      throw new Error("Already active");
+    }
+
+    this.#active = true;
+    const createChannel = this.options.channel ?? defaultChannelFactory;
+    this.#channel = createChannel(this.name);
+    this.#channel.onmessage = (ev) =>
+      this.handleMessage(ev.data as ChannelMessage);
+    this.#election = new LeaderElection(
+      createChannel(`${this.name}:election`),
+      (leader) => this.handleLeaderChange(leader),
+      this.options,
+      this.id,
+      `${this.name}:leader`,
+    );
+
+    globalThis.addEventListener?.("pagehide", this.handlePageHide);
+    this.#election.start();
+  }
+
+  /**
+   * Leave the shared connection, handing it over to another tab if this one is the leader
+   */
+  shutdown() {
+    if (!this.#active) {
+      return;
+    }
+
+    globalThis.removeEventListener?.("pagehide", this.handlePageHide);
+    const leader = this.leader;
+    if (leader != null && leader !== this.id) {
+      this.post({ kind: "leave", from: this.id, to: leader });
+    }
+
+    this.#active = false;
+    this.#election?.stop();
+    this.#election = null;
+    this.stopLeading();
+    this.rejectPendingCalls(() => true);
+    this.#queue = [];
+    this.#channel?.close();
+    this.#channel = null;
+    this.setState(
+      ConnectionState.Disconnected,
+      this.#state,
+      TransitionReason.Shutdown,
+    );
+  }
+
+  /**
+   * Send a message through the leader's connection. `message` must survive structured cloning
+   */
+  send(message: Out) {
+    this.request({ kind: "send", from: this.id, message });
+  }
+
+  /**
+   * Execute a named command on the leader's connection and wait for its result
+   */
+  call<T = unknown>(
+    command: SharedCommand,
+    options: { timeout?: number } = {},
+  ): Promise<T> {
+    const id = this.#nextCallId++;
+    return new Promise<T>((resolve, reject) => {
+      this.#pendingCalls.set(id, {
+        command: command.name,
+        sent: false,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.request({
+        kind: "call",
+        from: this.id,
+        id,
+        command,
+        timeout: options.timeout,
+      });
+    });
+  }
+
+  /**
+   * Register a subscription on the shared connection. Tabs subscribing with the same key share one
+   * server-side subscription, which is released when the last of them unsubscribes
+   */
+  subscribe(
+    key: string,
+    subscribe: SharedCommand,
+    unsubscribe: SharedCommand,
+  ): Subscription {
+    if (this.#subscriptions.has(key)) {
+      throw new Error(`Already subscribed: ${key}`);
+    }
+
+    this.#subscriptions.set(key, { subscribe, unsubscribe });
+    this.request({
+      kind: "subscribe",
+      from: this.id,
+      key,
+      subscribe,
+      unsubscribe,
+    });
+
+    return {
+      key,
+      unsubscribe: async () => {
+        if (this.#subscriptions.delete(key)) {
+          this.request({ kind: "unsubscribe", from: this.id, key });
+        }
+      },
+    };
+  }
+
+  /**
+   * Keys of the subscriptions registered by this tab
+   */
+  get subscriptions(): string[] {
+    return [...this.#subscriptions.keys()];
+  }
+
+  //#region Events
+
+  addEventListener<K extends keyof CrossTabEventMap<In>>(
+    type: K,
+    listener: GreatWebSocketEventListener<CrossTabEventMap<In>[K]>,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    type: string,
+    listener: unknown,
+    options?: boolean | AddEventListenerOptions,
+  ): void {
+    super.addEventListener(
+      type,
+      listener as EventListenerOrEventListenerObject,
+      options,
+    );
+  }
+
+  removeEventListener<K extends keyof CrossTabEventMap<In>>(
+    type: K,
+    listener: GreatWebSocketEventListener<CrossTabEventMap<In>[K]>,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: unknown,
+    options?: boolean | EventListenerOptions,
+  ): void {
+    super.removeEventListener(
+      type,
+      listener as EventListenerOrEventListenerObject,
+      options,
+    );
+  }
+
+  //#endregion
+
+  private readonly handlePageHide = () => this.shutdown();
+
+  private get logger() {
+    return this.options.logger ?? defaultLogger;
+  }
+
+  private handleLeaderChange(leader: string | null) {
+    this.logger.info("Leader tab changed", { leader, self: this.id });
+    this.dispatchEvent(new LeaderChangeEvent(leader, leader === this.id));
+
+    // Whatever was sent to the previous leader won't be answered
+    this.rejectPendingCalls((call) => call.sent);
+    if (leader === this.id) {
+      this.startLeading();
+    } else {
+      this.stopLeading();
+    }
+
+    if (leader == null) {
+      return;
+    }
+
+    if (leader !== this.id) {
+      this.post({ kind: "sync", from: this.id, to: leader });
+    }
+
+    for (const [key, subscription] of this.#subscriptions) {
+      this.request({ kind: "subscribe", from: this.id, key, ...subscription });
+    }
+
+    const queue = this.#queue;
+    this.#queue = [];
+    for (const request of queue) {
+      this.request(request);
+    }
+  }
+
+  private startLeading() {
+    const socket = this.createSocket();
+    this.#held = [];
+    socket.addEventListener("statechange", (ev) => {
+      this.setState(ev.state, ev.previousState, ev.reason);
+      this.post({
+        kind: "state",
+        state: ev.state,
+        previousState: ev.previousState,
+        reason: ev.reason,
+      });
+      if (
+        ev.state === ConnectionState.Connected ||
+        ev.state === ConnectionState.Error
+      ) {
+        this.releaseHeld();
+      }
+    });
+    socket.addEventListener("message", (ev) => {
+      this.dispatchEvent(new MessageReceivedEvent(ev.message, ev.data));
+      this.post({ kind: "message", message: ev.message, data: ev.data });
+    });
+
+    this.#socket = socket;
+    socket.activate();
+  }
+
+  private stopLeading() {
+    // Own requests go to the next leader, the other tabs re-send or reject theirs on the leader change
+    const own = (this.#held ?? []).filter(
+      (request) => request.from === this.id,
+    );
+    this.#held = null;
+    this.#queue = [...own, ...this.#queue];
+    this.#socket?.shutdown();
+    this.#socket = null;
+    this.#shared.clear();
+  }
+
+  private releaseHeld() {
+    const held = this.#held ?? [];
+    this.#held = null;
+    for (const request of held) {
+      this.handleRequest(request);
+    }
+  }
+
+  /**
+   * Route a request to the leader: handle it here, post it to the leader tab, or queue it while electing
+   */
+  private request(request: Request) {
+    const leader = this.leader;
+    if (leader == null) {
+      this.#queue.push(request);
+      return;
+    }
+
+    if (request.kind === "call") {
+      const call = this.#pendingCalls.get(request.id);
+      if (call == null) {
+        return;
+      }
+      call.sent = leader !== this.id;
+    }
+
+    if (leader === this.id) {
+      this.handleRequest(request);
+    } else {
+      this.post({ ...request, to: leader });
+    }
+  }
+
+  private handleMessage(message: ChannelMessage) {
+    switch (message.kind) {
+      case "state":
+        if (!this.isLeader) {
+          this.setState(message.state, message.previousState, message.reason);
+        }
+        break;
+      case "message":
+        if (!this.isLeader) {
+          this.dispatchEvent(
+            new MessageReceivedEvent(message.message as In, message.data),
+          );
+        }
+        break;
+      case "result":
+      case "failure":
+        if (message.to === this.id) {
+          this.settle(message);
+        }
+        break;
+      default:
+        if (message.to === this.id && this.isLeader) {
+          this.handleRequest(message);
+        }
+    }
+  }
+
+  private handleRequest(request: Request) {
+    const socket = this.#socket;
+    if (socket == null) {
+      return;
+    }
+
+    // A socket that is still connecting would drop sends and reject calls
+    if (
+      this.#held != null &&
+      (request.kind === "send" || request.kind === "call")
+    ) {
+      this.#held.push(request);
+      return;
+    }
+
+    switch (request.kind) {
+      case "send":
+        socket.send(request.message as Out);
+        break;
+      case "call":
+        Promise.resolve()
+          .then(() =>
+            socket.call(this.resolveCommand(request.command), {
+              timeout: request.timeout,
+            }),
+          )
+          .then(
+            (value) =>
+              this.reply({
+                kind: "result",
+                to: request.from,
+                id: request.id,
+                value,
+              }),
+            (error) =>
+              this.reply({
+                kind: "failure",
+                to: request.from,
+                id: request.id,
+                error: {
+                  name: error?.name ?? "Error",
+                  message: error?.message ?? String(error),
+                },
+              }),
+          );
+        break;
+      case "subscribe": {
+        const shared = this.#shared.get(request.key);
+        if (shared != null) {
+          shared.tabs.add(request.from);
+          break;
+        }
+
+        const { subscribe, unsubscribe } = request;
+        this.#shared.set(request.key, {
+          tabs: new Set([request.from]),
+          subscription: socket.subscribe(
+            request.key,
+            () => this.resolveCommand(subscribe),
+            () => this.resolveCommand(unsubscribe),
+          ),
+        });
+        break;
+      }
+      case "unsubscribe":
+        this.releaseSubscription(request.key, request.from);
+        break;
+      case "leave":
+        for (const key of [...this.#shared.keys()]) {
+          this.releaseSubscription(key, request.from);
+        }
+        break;
+      case "sync":
+        this.post({
+          kind: "state",
+          state: socket.state,
+          previousState: null,
+          reason: null,
+        });
+        break;
+    }
+  }
+
+  private releaseSubscription(key: string, tab: string) {
+    const shared = this.#shared.get(key);
+    if (shared == null || !shared.tabs.delete(tab) || shared.tabs.size > 0) {
+      return;
+    }
+
+    this.#shared.delete(key);
+    shared.subscription.unsubscribe().catch((error) => {
+      this.logger.warn("Shared unsubscribe failed", { key, error });
+    });
+  }
+
+  private resolveCommand(command: SharedCommand) {
+    const factory = this.options.commands?.[command.name];
+    if (factory == null) {
+      throw new Error(`Unknown command: ${command.name}`);
+    }
+
+    return factory(command.params);
+  }
+
+  private reply(reply: Reply) {
+    if (reply.to === this.id) {
+      this.settle(reply);
+    } else {
+      this.post(reply);
+    }
+  }
+
+  private settle(reply: Reply) {
+    const call = this.#pendingCalls.get(reply.id);
+    if (call == null) {
+      return;
+    }
+
+    this.#pendingCalls.delete(reply.id);
+    if (reply.kind === "result") {
+      call.resolve(reply.value);
+    } else {
+      const error = new Error(reply.error.message);
+      error.name = reply.error.name;
+      call.reject(error);
+    }
+  }
+
+  private setState(
+    state: ConnectionState,
+    previousState: ConnectionState | null,
+    reason: TransitionReason | null,
+  ) {
+    if (this.#state === state) {
+      return;
+    }
+
+    this.#state = state;
+    this.dispatchEvent(
+      new ConnectionStateChangeEvent(state, previousState, reason),
+    );
+  }
+
+  private rejectPendingCalls(predicate: (call: PendingCall) => boolean) {
+    for (const [id, call] of this.#pendingCalls) {
+      if (predicate(call)) {
+        this.#pendingCalls.delete(id);
+        call.reject(new LeaderChangedError(call.command));
+      }
+    }
+  }
+
+  private post(message: ChannelMessage) {
+    this.#channel?.postMessage(message);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Resolves the URL right before each connection attempt, e.g. to put a fresh token into the query string
+ */
+export type UrlProvider = () => string | Promise<string>;
+
+export type Endpoint = string | UrlProvider;
+
+/**
+ * How the next endpoint is picked:
+ * - `priority` — the first endpoint in the list that isn't cooling down
+ * - `round-robin` — the next endpoint after the current one that isn't cooling down
+ */
+export type EndpointStrategy = "priority" | "round-robin";
+
+export interface FailoverOptions {
+  /**
+   * Defaults to `priority`
+   */
+  strategy?: EndpointStrategy;
+  /**
+   * Time in milliseconds a failed endpoint is skipped. Defaults to 30 seconds
+   */
+  cooldown?: number;
+  /**
+   * With the `priority` strategy, reconnect to the preferred endpoint after being connected
+   * to another one for this long. Disabled when omitted
+   */
+  failbackAfter?: number;
+}
+
+export interface EndpointHealth<E = string> {
+  url: E;
+  /**
+   * Failed connection attempts in a row
+   */
+  failures: number;
+  /**
+   * Timestamp until which the endpoint is skipped, `0` when healthy
+   */
+  cooldownUntil: number;
+}
+
+/**
+ * Picks endpoints to connect to and tracks their health.
+ * Endpoints are listed from the most to the least preferred
+ */
+export class EndpointPool<E = string> {
+  #endpoints: EndpointHealth<E>[];
+  #current = -1;
+
+  constructor(
+    urls: readonly E[],
+    private readonly options: FailoverOptions = {},
+  ) {
+    if (urls.length === 0) {
+      throw new RangeError("At least one endpoint is required");
+    }
+
+    this.#endpoints = urls.map((url) => ({
+      url,
+      failures: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  /**
+   * The endpoint returned by the last `next()` call
+   */
+  get current(): E | null {
+    return this.#endpoints[this.#current]?.url ?? null;
+  }
+
+  get preferred(): E {
+    return this.#endpoints[0].url;
+  }
+
+  get health(): EndpointHealth<E>[] {
+    return this.#endpoints.map((endpoint) => ({ ...endpoint }));
+  }
+
+  /**
+   * Whether a failback to the preferred endpoint is due: connected elsewhere and the preferred one isn't cooling down
+   */
+  get canFailback(): boolean {
+    return (
+      this.options.failbackAfter != null &&
+      (this.options.strategy ?? "priority") === "priority" &&
+      this.#current > 0 &&
+      !this.isCoolingDown(this.#endpoints[0])
+    );
+  }
+
+  /**
+   * Pick the endpoint for the next connection attempt.
+   * When all endpoints are cooling down, the one that recovers first is used
+   */
+  next(): E {
+    const count = this.#endpoints.length;
+    const start =
+      this.options.strategy === "round-robin" ? this.#current + 1 : 0;
+
+    let picked = -1;
+    for (let i = 0; i < count; i++) {
+      const index = (start + i) % count;
+      if (!this.isCoolingDown(this.#endpoints[index])) {
+        picked = index;
+        break;
+      }
+    }
+
+    if (picked === -1) {
+      picked = 0;
+      for (let index = 1; index < count; index++) {
+        if (
+          this.#endpoints[index].cooldownUntil <
+          this.#endpoints[picked].cooldownUntil
+        ) {
+          picked = index;
+        }
+      }
+    }
+
+    this.#current = picked;
+    return this.#endpoints[picked].url;
+  }
+
+  /**
+   * The current endpoint connected successfully
+   */
+  reportSuccess() {
+    const endpoint = this.#endpoints[this.#current];
+    if (endpoint != null) {
+      endpoint.failures = 0;
+      endpoint.cooldownUntil = 0;
+    }
+  }
+
+  /**
+   * The current endpoint failed to connect. It is skipped for `cooldown` milliseconds
+   */
+  reportFailure() {
+    const endpoint = this.#endpoints[this.#current];
+    if (endpoint != null) {
+      endpoint.failures++;
+      endpoint.cooldownUntil = Date.now() + (this.options.cooldown ?? 30000);
+    }
+  }
+
+  private isCoolingDown(endpoint: EndpointHealth<E>) {
+    return endpoint.cooldownUntil > Date.now();
+  }
+}
@@ -0,0 +1,71 @@
+export interface EnvironmentListener {
+  online(): void;
+  offline(): void;
+  /**
+   * The page became visible again, e.g. a tab was focused or a laptop woke up
+   */
+  visible(): void;
+}
+
+/**
+ * Reports network and page visibility changes to `AlwaysConnected`
+ */
+export interface EnvironmentMonitor {
+  readonly online: boolean;
+  /**
+   * @returns a function that removes the listener
+   */
+  subscribe(listener: EnvironmentListener): () => void;
+}
+
+export interface BrowserEnvironmentGlobals {
+  window?: Pick<Window, "addEventListener" | "removeEventListener">;
+  document?: Pick<
+    Document,
+    "addEventListener" | "removeEventListener" | "visibilityState"
+  >;
+  navigator?: Pick<Navigator, "onLine">;
+}
+
+/**
+ * Does nothing and always reports being online. Used outside of browsers
+ */
+export const nullEnvironment: EnvironmentMonitor = {
+  online: true,
+  subscribe: () => () => {},
+};
+
+/**
+ * Watches `online`/`offline` on `window` and `visibilitychange` on `document`.
+ * Falls back to `nullEnvironment` behavior for whatever the globals lack, e.g. in Node.
+ */
+export const browserEnvironment = (
+  globals: BrowserEnvironmentGlobals = globalThis as BrowserEnvironmentGlobals,
+): EnvironmentMonitor => {
+  const { window, document, navigator } = globals;
+
+  return {
+    get online() {
+      return navigator?.onLine ?? true;
+    },
+    subscribe(listener) {
+      const onOnline = () => listener.online();
+      const onOffline = () => listener.offline();
+      const onVisibilityChange = () => {
+        if (document?.visibilityState === "visible") {
+          listener.visible();
+        }
+      };
+
+      window?.addEventListener("online", onOnline);
+      window?.addEventListener("offline", onOffline);
+      document?.addEventListener("visibilitychange", onVisibilityChange);
+
+      return () => {
+        window?.removeEventListener("online", onOnline);
+        window?.removeEventListener("offline", onOffline);
+        document?.removeEventListener("visibilitychange", onVisibilityChange);
+      };
+    },
+  };
+};
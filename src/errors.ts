@@ -0,0 +1,92 @@
+import type { RemoteCommand } from "./rpc";
+
+/**
+ * The server did not answer a `call()` in time
+ */
+export class RpcTimeoutError extends Error {
+  constructor(
+    readonly command: RemoteCommand<unknown>,
+    readonly timeout: number,
+  ) {
+    super(`Command ${command.constructor.name} timed out after ${timeout} ms`);
+    this.name = "RpcTimeoutError";
+  }
+}
+
+/**
+ * A `call()` was cancelled through its `AbortSignal`
+ */
+export class RpcAbortedError extends Error {
+  constructor(
+    readonly command: RemoteCommand<unknown>,
+    readonly reason?: unknown,
+  ) {
+    super(`Command ${command.constructor.name} was aborted`);
+    this.name = "RpcAbortedError";
+  }
+}
+
+/**
+ * The connection dropped or was shut down before the command got its response
+ */
+export class ConnectionLostError extends Error {
+  constructor(readonly command: RemoteCommand<unknown>) {
+    super(`Connection lost while ${command.constructor.name} was in flight`);
+    this.name = "ConnectionLostError";
+  }
+}
+
+/**
+ * The outbox is full and configured with the `reject` overflow strategy
+ */
+export class OutboxOverflowError extends Error {
+  constructor(readonly maxSize: number) {
+    super(`Outbox is full (${maxSize} messages)`);
+    this.name = "OutboxOverflowError";
+  }
+}
+
+/**
+ * A `messages()` consumer fell too far behind and is configured with the `error` overflow strategy
+ */
+export class MessageBufferOverflowError extends Error {
+  constructor(readonly bufferSize: number) {
+    super(`Message buffer is full (${bufferSize} messages)`);
+    this.name = "MessageBufferOverflowError";
+  }
+}
+
+/**
+ * The server answered a JSON-RPC request with an error object
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(error: { code: number; message: string; data?: unknown }) {
+    super(error.message);
+    this.name = "JsonRpcError";
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * The server sent a request for a method without a handler registered through `handle()`
+ */
+export class MethodNotFoundError extends Error {
+  constructor(readonly method: string) {
+    super(`No handler for method ${method}`);
+    this.name = "MethodNotFoundError";
+  }
+}
+
+/**
+ * The leader tab changed, or this tab shut down, before a call proxied through the leader got its result
+ */
+export class LeaderChangedError extends Error {
+  constructor(readonly command: string) {
+    super(`Leader tab changed while ${command} was in flight`);
+    this.name = "LeaderChangedError";
+  }
+}
@@ -1,20 +1,378 @@
-import type { ConnectionState as ConnectionStateType } from "./models";
-import { ConnectionState } from "./models";
+import type {
+  ConnectionState as ConnectionStateType,
+  TransitionReason,
+} from "./models";
+import type { CloseInfo } from "./reconnect-policy";
+import type { RemoteCommand } from "./rpc";
+import type { ConnectionQuality, RttStats } from "./rtt";
+import type { ConnectionStats } from "./stats";
 
-export interface GreatWebSocketEventMap {
+export interface GreatWebSocketEventMap<In = unknown> {
   statechange: ConnectionStateChangeEvent;
   connectiontimeout: Event;
+  heartbeattimeout: Event;
+  reconnectscheduled: ReconnectScheduledEvent;
+  closed: ConnectionClosedEvent;
+  error: ConnectionErrorEvent;
+  message: MessageReceivedEvent<In>;
+  rpccomplete: RpcCompleteEvent;
+  decodeerror: MessageDecodeErrorEvent;
+  subscriptionerror: SubscriptionErrorEvent;
+  handshakefailed: HandshakeFailedEvent;
+  stats: StatsEvent;
+  qualitychange: QualityChangeEvent;
+  drain: Event;
 }
 
+export type GreatWebSocketEventListener<E extends Event> =
+  | ((ev: E) => void)
+  | { handleEvent(ev: E): void };
+
 export class ConnectionStateChangeEvent extends Event {
   #state: ConnectionStateType;
+  #previousState: ConnectionStateType | null;
+  #reason: TransitionReason | null;
+  #closeInfo: CloseInfo | null;
+  #endpoint: string | null;
 
-  constructor(state: ConnectionStateType) {
+  constructor(
+    state: ConnectionStateType,
+    previousState: ConnectionStateType | null = null,
+    reason: TransitionReason | null = null,
+    closeInfo: CloseInfo | null = null,
+    endpoint: string | null = null,
+  ) {
     super("statechange");
     this.#state = state;
+    this.#previousState = previousState;
+    this.#reason = reason;
+    this.#closeInfo = closeInfo;
+    this.#endpoint = endpoint;
   }
 
   get state() {
     return this.#state;
   }
+
+  get previousState() {
+    return this.#previousState;
+  }
+
+  /**
+   * What caused the transition
+   */
+  get reason() {
+    return this.#reason;
+  }
+
+  /**
+   * Close details when the transition was caused by the socket closing
+   */
+  get closeInfo() {
+    return this.#closeInfo;
+  }
+
+  /**
+   * URL of the current or, while reconnecting, the last socket
+   */
+  get endpoint() {
+    return this.#endpoint;
+  }
+}
+
+/**
+ * A reconnect attempt was scheduled after the connection dropped
+ */
+export class ReconnectScheduledEvent extends Event {
+  #attempt: number;
+  #delay: number;
+
+  constructor(attempt: number, delay: number) {
+    super("reconnectscheduled");
+    this.#attempt = attempt;
+    this.#delay = delay;
+  }
+
+  get attempt() {
+    return this.#attempt;
+  }
+
+  get delay() {
+    return this.#delay;
+  }
+}
+
+/**
+ * The current socket was closed
+ */
+export class ConnectionClosedEvent extends Event {
+  #closeInfo: CloseInfo;
+
+  constructor(closeInfo: CloseInfo) {
+    super("closed");
+    this.#closeInfo = closeInfo;
+  }
+
+  get code() {
+    return this.#closeInfo.code;
+  }
+
+  get reason() {
+    return this.#closeInfo.reason;
+  }
+
+  get wasClean() {
+    return this.#closeInfo.wasClean;
+  }
+}
+
+/**
+ * The current socket reported an error
+ */
+export class ConnectionErrorEvent extends Event {
+  #error: unknown;
+
+  constructor(error: unknown) {
+    super("error");
+    this.#error = error;
+  }
+
+  /**
+   * The original error event of the socket, or what was thrown while creating it
+   */
+  get error() {
+    return this.#error;
+  }
+}
+
+/**
+ * A decoded message arrived that wasn't consumed as an RPC response
+ */
+export class MessageReceivedEvent<In = unknown> extends Event {
+  #message: In;
+  #data: unknown;
+
+  constructor(message: In, data: unknown) {
+    super("message");
+    this.#message = message;
+    this.#data = data;
+  }
+
+  get message() {
+    return this.#message;
+  }
+
+  /**
+   * The raw frame
+   */
+  get data() {
+    return this.#data;
+  }
+}
+
+/**
+ * A `call()` settled: with a response, or with an error (timeout, abort, connection loss,
+ * or a failing `handleResponse`)
+ */
+export class RpcCompleteEvent extends Event {
+  #command: RemoteCommand<unknown>;
+  #rpcId: string | undefined;
+  #elapsed: number;
+  #error: unknown;
+
+  constructor(
+    command: RemoteCommand<unknown>,
+    rpcId: string | undefined,
+    elapsed: number,
+    error?: unknown,
+  ) {
+    super("rpccomplete");
+    this.#command = command;
+    this.#rpcId = rpcId;
+    this.#elapsed = elapsed;
+    this.#error = error;
+  }
+
+  get command() {
+    return this.#command;
+  }
+
+  get rpcId() {
+    return this.#rpcId;
+  }
+
+  /**
+   * Milliseconds since the command was (last) executed
+   */
+  get elapsed() {
+    return this.#elapsed;
+  }
+
+  get error() {
+    return this.#error;
+  }
+
+  get succeeded() {
+    return this.#error === undefined;
+  }
+}
+
+/**
+ * An incoming frame could not be decoded by the configured codec
+ */
+export class MessageDecodeErrorEvent extends Event {
+  #error: unknown;
+  #data: unknown;
+
+  constructor(error: unknown, data: unknown) {
+    super("decodeerror");
+    this.#error = error;
+    this.#data = data;
+  }
+
+  get error() {
+    return this.#error;
+  }
+
+  /**
+   * The raw frame that failed to decode
+   */
+  get data() {
+    return this.#data;
+  }
+}
+
+/**
+ * A subscription registered with `subscribe()` could not be (re-)established
+ */
+export class SubscriptionErrorEvent extends Event {
+  #key: string;
+  #error: unknown;
+
+  constructor(key: string, error: unknown) {
+    super("subscriptionerror");
+    this.#key = key;
+    this.#error = error;
+  }
+
+  get key() {
+    return this.#key;
+  }
+
+  get error() {
+    return this.#error;
+  }
+}
+
+/**
+ * The application-level handshake returned a failure or threw
+ */
+export class HandshakeFailedEvent extends Event {
+  #fatal: boolean;
+  #reason: string | undefined;
+  #error: unknown;
+
+  constructor(fatal: boolean, reason?: string, error?: unknown) {
+    super("handshakefailed");
+    this.#fatal = fatal;
+    this.#reason = reason;
+    this.#error = error;
+  }
+
+  /**
+   * Whether the failure moved the connection into the `error` state instead of reconnecting
+   */
+  get fatal() {
+    return this.#fatal;
+  }
+
+  get reason() {
+    return this.#reason;
+  }
+
+  /**
+   * What the handshake threw, if it did
+   */
+  get error() {
+    return this.#error;
+  }
+}
+
+/**
+ * A tab was elected to own the shared connection, or the leader left and an election started
+ */
+export class LeaderChangeEvent extends Event {
+  #leader: string | null;
+  #isLeader: boolean;
+
+  constructor(leader: string | null, isLeader: boolean) {
+    super("leaderchange");
+    this.#leader = leader;
+    this.#isLeader = isLeader;
+  }
+
+  /**
+   * Id of the leader tab, `null` while electing
+   */
+  get leader() {
+    return this.#leader;
+  }
+
+  /**
+   * Whether this tab is the leader
+   */
+  get isLeader() {
+    return this.#isLeader;
+  }
+}
+
+/**
+ * Periodic snapshot of the connection statistics, see `statsInterval`
+ */
+export class StatsEvent extends Event {
+  #stats: ConnectionStats;
+
+  constructor(stats: ConnectionStats) {
+    super("stats");
+    this.#stats = stats;
+  }
+
+  get stats() {
+    return this.#stats;
+  }
+}
+
+/**
+ * The connection quality measured by pings changed, see `ping`
+ */
+export class QualityChangeEvent extends Event {
+  #quality: ConnectionQuality;
+  #previousQuality: ConnectionQuality;
+  #rtt: RttStats;
+
+  constructor(
+    quality: ConnectionQuality,
+    previousQuality: ConnectionQuality,
+    rtt: RttStats,
+  ) {
+    super("qualitychange");
+    this.#quality = quality;
+    this.#previousQuality = previousQuality;
+    this.#rtt = rtt;
+  }
+
+  get quality() {
+    return this.#quality;
+  }
+
+  get previousQuality() {
+    return this.#previousQuality;
+  }
+
+  /**
+   * RTT, jitter and packet loss the classification was based on
+   */
+  get rtt() {
+    return this.#rtt;
+  }
 }
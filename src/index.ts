@@ -1,6 +1,157 @@
-export { ConnectionStateChangeEvent } from "./events";
+export {
+  Codec,
+  jsonCodec,
+  lengthPrefixedCodec,
+  rawCodec,
+} from "./codec";
+export {
+  CrossTabEventMap,
+  CrossTabOptions,
+  CrossTabWebSocket,
+  SharedCommand,
+} from "./cross-tab";
+export {
+  Endpoint,
+  EndpointHealth,
+  EndpointPool,
+  EndpointStrategy,
+  FailoverOptions,
+  UrlProvider,
+} from "./endpoint-pool";
+export {
+  BrowserEnvironmentGlobals,
+  browserEnvironment,
+  EnvironmentListener,
+  EnvironmentMonitor,
+  nullEnvironment,
+} from "./environment";
+export {
+  ConnectionLostError,
+  JsonRpcError,
+  LeaderChangedError,
+  MessageBufferOverflowError,
+  MethodNotFoundError,
+  OutboxOverflowError,
+  RpcAbortedError,
+  RpcTimeoutError,
+} from "./errors";
+export {
+  ConnectionClosedEvent,
+  ConnectionErrorEvent,
+  ConnectionStateChangeEvent,
+  GreatWebSocketEventListener,
+  GreatWebSocketEventMap,
+  HandshakeFailedEvent,
+  LeaderChangeEvent,
+  MessageDecodeErrorEvent,
+  MessageReceivedEvent,
+  QualityChangeEvent,
+  ReconnectScheduledEvent,
+  RpcCompleteEvent,
+  StatsEvent,
+  SubscriptionErrorEvent,
+} from "./events";
+export {
+  JsonRpcBatchCall,
+  JsonRpcBatchCommand,
+  JsonRpcClient,
+  JsonRpcErrorObject,
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcOutbound,
+  JsonRpcRequest,
+  JsonRpcRequestCommand,
+  JsonRpcResponse,
+  jsonRpcRequests,
+} from "./json-rpc";
 export { AlwaysConnected, AlwaysConnectedOptions } from "./keep-online";
-export { ConnectionState, createWebSocketFn, heartbeatFn } from "./models";
-export { RemoteCommand, ResponseMatcher } from "./rpc";
-export { GreatWebSocket } from "./websocket";
-export { createWebSocket } from "./websocket-factory";
+export {
+  CrossTabChannel,
+  CrossTabChannelFactory,
+  CrossTabLocks,
+  LeaderElection,
+  LeaderElectionOptions,
+} from "./leader-election";
+export {
+  consoleLogger,
+  LogFields,
+  Logger,
+  LogLevel,
+  silentLogger,
+} from "./logger";
+export {
+  MessageBufferOverflowStrategy,
+  MessageStreamOptions,
+} from "./message-stream";
+export {
+  ConnectionState,
+  createWebSocketFn,
+  HandshakeOutcome,
+  HandshakeResult,
+  handshakeFn,
+  heartbeatFn,
+  TransitionReason,
+  WebSocketData,
+} from "./models";
+export {
+  OutboxOptions,
+  OutboxOverflowStrategy,
+  SendOptions,
+} from "./outbox";
+export {
+  CloseClassification,
+  CloseClassifier,
+  CloseCodeClassifierOptions,
+  CloseInfo,
+  closeCodeClassifier,
+  DecorrelatedJitterOptions,
+  decorrelatedJitter,
+  ExponentialBackoffOptions,
+  exponentialBackoff,
+  FixedDelayOptions,
+  fixedDelay,
+  ReconnectAttempt,
+  ReconnectPolicy,
+} from "./reconnect-policy";
+export {
+  FrameDirection,
+  RecordedEntry,
+  RecordedEvent,
+  RecordedFrame,
+  RecorderOptions,
+  SessionRecorder,
+  SessionRecording,
+} from "./recorder";
+export {
+  CallOptions,
+  CommandSource,
+  ConnectionLostPolicy,
+  IncomingRequest,
+  RemoteCommand,
+  RequestHandler,
+  RequestProtocol,
+  ResponseMatcher,
+  StreamingCall,
+  StreamingCallOptions,
+  StreamingCommand,
+  Subscription,
+} from "./rpc";
+export {
+  ConnectionQuality,
+  PingOptions,
+  QualityThresholds,
+  RttEstimator,
+  RttStats,
+} from "./rtt";
+export { BackpressureOptions } from "./send-queue";
+export { ConnectionStats, LatencyHistogram } from "./stats";
+export {
+  GreatWebSocket,
+  GreatWebSocketOptions,
+  MessageFn,
+} from "./websocket";
+export {
+  createWebSocket,
+  TransportOptions,
+  WebSocketConstructor,
+} from "./websocket-factory";
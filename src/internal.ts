@@ -1,11 +1,31 @@
-import type { RemoteCommand } from "./rpc";
+import type { ConnectionLostPolicy, RemoteCommand } from "./rpc";
 
 export interface PendingCommand {
-  command: RemoteCommand;
+  command: RemoteCommand<unknown>;
   executedAt: number;
   rpcId?: string;
+  onConnectionLost: ConnectionLostPolicy;
+  onProgress?: (progress: unknown) => void;
+  /**
+   * Set while the connection is down for commands that will be re-executed
+   */
+  awaitingReconnect?: boolean;
   promise: {
     resolve: (result: unknown) => void;
     reject: (error: unknown) => void;
   };
+  /**
+   * Releases the timeout and abort listener attached to the command
+   */
+  dispose?: () => void;
+}
+
+export interface SubscriptionEntry<Out> {
+  key: string;
+  subscribe: () => RemoteCommand<Out>;
+  unsubscribe: () => RemoteCommand<Out>;
+  /**
+   * `pending` until the subscribe command succeeds on the current connection
+   */
+  state: "pending" | "subscribing" | "active";
 }
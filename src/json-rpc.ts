@@ -0,0 +1,273 @@
+import { JsonRpcError, MethodNotFoundError } from "./errors";
+import type {
+  CallOptions,
+  IncomingRequest,
+  RemoteCommand,
+  RequestProtocol,
+} from "./rpc";
+import type { GreatWebSocket } from "./websocket";
+
+export type JsonRpcId = number | string;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export type JsonRpcOutbound =
+  | JsonRpcRequest
+  | JsonRpcNotification
+  | JsonRpcResponse
+  | (JsonRpcRequest | JsonRpcNotification)[];
+
+export interface JsonRpcBatchCall {
+  method: string;
+  params?: unknown;
+  /**
+   * Send as a notification: no response is expected and the result is `undefined`
+   */
+  notify?: boolean;
+}
+
+const isResponse = (message: unknown): message is JsonRpcResponse =>
+  typeof message === "object" &&
+  message != null &&
+  (message as JsonRpcResponse).jsonrpc === "2.0" &&
+  "id" in message &&
+  ("result" in message || "error" in message);
+
+const isRequest = (
+  message: unknown,
+): message is JsonRpcRequest | JsonRpcNotification =>
+  typeof message === "object" &&
+  message != null &&
+  (message as JsonRpcRequest).jsonrpc === "2.0" &&
+  typeof (message as JsonRpcRequest).method === "string";
+
+const toErrorObject = (error: unknown): JsonRpcErrorObject => {
+  if (error instanceof JsonRpcError) {
+    return { code: error.code, message: error.message, data: error.data };
+  }
+  if (error instanceof MethodNotFoundError) {
+    return { code: -32601, message: "Method not found" };
+  }
+
+  return {
+    code: -32603,
+    message: error instanceof Error ? error.message : String(error),
+  };
+};
+
+const unwrap = (response: JsonRpcResponse): unknown => {
+  if (response.error != null) {
+    throw new JsonRpcError(response.error);
+  }
+
+  return response.result;
+};
+
+export class JsonRpcRequestCommand implements RemoteCommand<JsonRpcOutbound> {
+  constructor(
+    readonly id: JsonRpcId,
+    readonly method: string,
+    readonly params?: unknown,
+  ) {}
+
+  execute(ws: GreatWebSocket<unknown, JsonRpcOutbound>): string {
+    ws.send({
+      jsonrpc: "2.0",
+      id: this.id,
+      method: this.method,
+      params: this.params,
+    });
+    return String(this.id);
+  }
+
+  responseMatches(message: unknown): boolean {
+    return isResponse(message) && message.id === this.id;
+  }
+
+  handleResponse(message: unknown): unknown {
+    return unwrap(message as JsonRpcResponse);
+  }
+}
+
+export class JsonRpcBatchCommand implements RemoteCommand<JsonRpcOutbound> {
+  readonly #requests: (JsonRpcRequest | JsonRpcNotification)[];
+
+  constructor(requests: (JsonRpcRequest | JsonRpcNotification)[]) {
+    this.#requests = requests;
+  }
+
+  execute(ws: GreatWebSocket<unknown, JsonRpcOutbound>): string {
+    ws.send(this.#requests);
+    return this.ids.join(",");
+  }
+
+  responseMatches(message: unknown): boolean {
+    return (
+      Array.isArray(message) &&
+      message.some(
+        (response) =>
+          isResponse(response) &&
+          response.id != null &&
+          this.ids.includes(response.id),
+      )
+    );
+  }
+
+  handleResponse(message: unknown): PromiseSettledResult<unknown>[] {
+    const responses = (message as unknown[]).filter(isResponse);
+
+    return this.#requests.map((request): PromiseSettledResult<unknown> => {
+      if (!("id" in request)) {
+        return { status: "fulfilled", value: undefined };
+      }
+
+      const response = responses.find((r) => r.id === request.id);
+      if (response == null) {
+        return {
+          status: "rejected",
+          reason: new JsonRpcError({
+            code: -32603,
+            message: "Missing response in batch",
+          }),
+        };
+      }
+
+      try {
+        return { status: "fulfilled", value: unwrap(response) };
+      } catch (error) {
+        return { status: "rejected", reason: error };
+      }
+    });
+  }
+
+  private get ids(): JsonRpcId[] {
+    return this.#requests.flatMap((request) =>
+      "id" in request ? [request.id] : [],
+    );
+  }
+}
+
+/**
+ * JSON-RPC 2.0 on top of `GreatWebSocket`.
+ *
+ * The socket needs a JSON codec and `routeResponses: true`, so responses reach
+ * pending calls without going through `onMessageFn`.
+ */
+export class JsonRpcClient {
+  #nextId = 1;
+
+  constructor(
+    // biome-ignore lint/suspicious/noExplicitAny: the inbound type is irrelevant for sending requests
+    private readonly ws: GreatWebSocket<any, JsonRpcOutbound>,
+  ) {}
+
+  /**
+   * Call a method and wait for its result. Error responses reject with `JsonRpcError`
+   */
+  request<T = unknown>(
+    method: string,
+    params?: unknown,
+    options?: CallOptions,
+  ): Promise<T> {
+    return this.ws.call(
+      new JsonRpcRequestCommand(this.#nextId++, method, params),
+      options,
+    ) as Promise<T>;
+  }
+
+  /**
+   * Send a notification, no response is expected
+   *
+   * @returns `true` if the notification was sent or queued
+   */
+  notify(method: string, params?: unknown): boolean {
+    return this.ws.send({ jsonrpc: "2.0", method, params });
+  }
+
+  /**
+   * Send several calls in one frame. Resolves once the batch response arrives,
+   * with one settled result per call, in order
+   */
+  batch(
+    calls: JsonRpcBatchCall[],
+    options?: CallOptions,
+  ): Promise<PromiseSettledResult<unknown>[]> {
+    const requests = calls.map(
+      ({ method, params, notify }): JsonRpcRequest | JsonRpcNotification =>
+        notify
+          ? { jsonrpc: "2.0", method, params }
+          : { jsonrpc: "2.0", id: this.#nextId++, method, params },
+    );
+
+    if (requests.every((request) => !("id" in request))) {
+      this.ws.send(requests);
+      return Promise.resolve(
+        requests.map(() => ({ status: "fulfilled", value: undefined })),
+      );
+    }
+
+    return this.ws.call(new JsonRpcBatchCommand(requests), options) as Promise<
+      PromiseSettledResult<unknown>[]
+    >;
+  }
+}
+
+/**
+ * Requests from the server as JSON-RPC 2.0, for the `requestProtocol` option.
+ *
+ * Handlers can throw `JsonRpcError` to choose the error code, other errors are sent as -32603
+ */
+export const jsonRpcRequests = (): RequestProtocol<
+  unknown,
+  JsonRpcOutbound
+> => ({
+  parse(message): IncomingRequest | null {
+    if (!isRequest(message)) {
+      return null;
+    }
+
+    return {
+      id: "id" in message ? message.id : undefined,
+      method: message.method,
+      params: message.params,
+    };
+  },
+  result(request, result) {
+    return {
+      jsonrpc: "2.0",
+      id: request.id as JsonRpcId,
+      result: result ?? null,
+    };
+  },
+  error(request, error) {
+    return {
+      jsonrpc: "2.0",
+      id: request.id as JsonRpcId,
+      error: toErrorObject(error),
+    };
+  },
+});
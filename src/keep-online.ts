@@ -1,28 +1,76 @@
+import type { EnvironmentMonitor } from "./environment";
 import {
+  ConnectionClosedEvent,
+  ConnectionErrorEvent,
   ConnectionStateChangeEvent,
+  type GreatWebSocketEventListener,
   type GreatWebSocketEventMap,
+  HandshakeFailedEvent,
+  ReconnectScheduledEvent,
 } from "./events";
+import { defaultLogger, type Logger } from "./logger";
 import {
   ConnectionState,
   type ConnectionState as ConnectionStateType,
   type createWebSocketFn,
+  type HandshakeOutcome,
+  type HandshakeResult,
+  type handshakeFn,
   type heartbeatFn,
+  TransitionReason,
   type WebSocketIsh,
 } from "./models";
+import {
+  type CloseClassifier,
+  type CloseInfo,
+  fixedDelay,
+  type ReconnectPolicy,
+} from "./reconnect-policy";
 
 export interface AlwaysConnectedOptions {
   heartbeatInterval: number;
   reconnectDelay: number;
   connectionTimeout: number;
+  /**
+   * Decides the delay before each reconnect attempt. Defaults to a fixed `reconnectDelay`
+   */
+  reconnectPolicy?: ReconnectPolicy;
+  /**
+   * Decides whether a close is worth reconnecting after. Every close is retried when omitted
+   */
+  classifyClose?: CloseClassifier;
+  /**
+   * Reconnect if no inbound traffic is reported via `handleWebSocketMessage()` for this long
+   * while connected. Disabled when omitted
+   */
+  livenessTimeout?: number;
+  logger?: Logger;
+  /**
+   * Pauses reconnects while offline and reconnects as soon as the network or page comes back
+   */
+  environment?: EnvironmentMonitor;
 }
 
 export class AlwaysConnected extends EventTarget {
   #active = false;
   #ws: WebSocketIsh | null = null;
+  /**
+   * Socket torn down on its `error` event, whose `close` event is still due
+   */
+  #failedWs: WebSocketIsh | null = null;
   #state: ConnectionStateType = ConnectionState.Disconnected;
   #connectionWatchdog: ReturnType<typeof setTimeout> | null = null;
+  #livenessWatchdog: ReturnType<typeof setTimeout> | null = null;
   #heartbeatTimeout: ReturnType<typeof setInterval> | null = null;
-  #connectionToken: object | null = null;
+  #handshake: AbortController | null = null;
+  #reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  #reconnectAttempt = 0;
+  #lastReconnectDelay = 0;
+  #lastClose: CloseInfo | null = null;
+  #lastMessageAt = 0;
+  #endpoint: string | null = null;
+  #opening: object | null = null;
+  #unsubscribeEnvironment: (() => void) | null = null;
 
   get websocket(): WebSocketIsh | null {
     return this.#ws;
@@ -30,13 +78,17 @@ export class AlwaysConnected extends EventTarget {
 
   constructor(
     private readonly createWs: createWebSocketFn,
-    private readonly onConnectedFn: () => Promise<boolean>,
+    private readonly onConnectedFn: handshakeFn,
     private readonly sendHeartbeat: heartbeatFn,
     private readonly options: AlwaysConnectedOptions,
   ) {
     super();
   }
 
+  private get logger(): Logger {
+    return this.options.logger ?? defaultLogger;
+  }
+
   /**
    * Whether the WebSocket is activated and running
    */
@@ -51,6 +103,20 @@ export class AlwaysConnected extends EventTarget {
     return this.#state;
   }
 
+  /**
+   * Close details of the last socket that closed, kept in the `error` state
+   */
+  get lastClose(): CloseInfo | null {
+    return this.#lastClose;
+  }
+
+  /**
+   * URL of the current or, while reconnecting, the last socket
+   */
+  get endpoint(): string | null {
+    return this.#endpoint;
+  }
+
   /**
    * Activate - initiate the WebSocket connection and keep it alive
    */
@@ -60,7 +126,11 @@ export class AlwaysConnected extends EventTarget {
     }
 
     this.#active = true;
-    this.transitionToState(ConnectionState.Connecting);
+    this.#lastClose = null;
+    this.transitionToState(
+      ConnectionState.Connecting,
+      TransitionReason.Activated,
+    );
 
     this.#heartbeatTimeout = setInterval(() => {
       if (
@@ -74,60 +144,295 @@ export class AlwaysConnected extends EventTarget {
       this.sendHeartbeat(this.#ws, this.options.heartbeatInterval);
     }, this.options.heartbeatInterval);
 
-    this.#ws = this.createWs();
+    this.#unsubscribeEnvironment =
+      this.options.environment?.subscribe({
+        online: () => this.handleOnline(),
+        offline: () => this.handleOffline(),
+        visible: () => this.handlePageVisible(),
+      }) ?? null;
+
+    this.openSocket();
   }
 
   /**
    * Shutdown - stop and disconnect the WebSocket
    */
   shutdown() {
-    this.#connectionToken = null;
-    if (this.#heartbeatTimeout != null) {
-      clearInterval(this.#heartbeatTimeout);
-      this.#heartbeatTimeout = null;
-    }
-
-    this.stopConnectionWatchdog();
-    this.#active = false;
+    this.stop();
     this.#ws?.close();
-    this.#state = ConnectionState.Disconnected;
+    this.transitionToState(
+      ConnectionState.Disconnected,
+      TransitionReason.Shutdown,
+    );
   }
 
   handleWebSocketOpen() {
-    const connectionToken = {};
-    this.#connectionToken = connectionToken;
-    this.transitionToState(ConnectionState.Limbo);
+    this.abortHandshake();
+    const handshake = new AbortController();
+    this.#handshake = handshake;
+    this.transitionToState(ConnectionState.Limbo, TransitionReason.Opened);
+
+    let result: Promise<HandshakeResult>;
+    try {
+      result = Promise.resolve(
+        this.onConnectedFn(this.#ws as WebSocketIsh, handshake.signal),
+      );
+    } catch (error) {
+      result = Promise.reject(error);
+    }
 
-    this.onConnectedFn().then((success) => {
-      if (this.#connectionToken !== connectionToken) {
-        return;
-      }
+    result.then(
+      (value) => this.completeHandshake(handshake, toOutcome(value)),
+      (error) =>
+        this.completeHandshake(
+          handshake,
+          { outcome: "retry", reason: String(error) },
+          error,
+        ),
+    );
+  }
 
-      if (success) {
-        this.transitionToState(ConnectionState.Connected);
-      }
-    });
+  handleWebSocketError(ws: WebSocket, error?: unknown) {
+    if (ws === this.#ws) {
+      this.dispatchEvent(new ConnectionErrorEvent(error));
+      this.#failedWs = ws;
+    }
+
+    this.reconnectIfNeeded(TransitionReason.SocketError, ws);
   }
 
-  handleWebSocketError(ws: WebSocket) {
-    this.reconnectIfNeeded(ws);
+  handleWebSocketClosed(ws: WebSocket, closeInfo?: CloseInfo) {
+    const failed = ws === this.#failedWs;
+    if (failed) {
+      this.#failedWs = null;
+    }
+    if ((ws !== this.#ws && !failed) || closeInfo == null) {
+      this.reconnectIfNeeded(TransitionReason.SocketClosed, ws);
+      return;
+    }
+
+    this.#lastClose = closeInfo;
+    this.dispatchEvent(new ConnectionClosedEvent(closeInfo));
+
+    const classification = this.options.classifyClose?.(closeInfo) ?? "retry";
+    if (classification === "stop" && this.active) {
+      this.logger.error("Connection closed permanently", { ...closeInfo });
+      if (failed) {
+        // a socket of the next attempt may already exist
+        this.#ws?.close();
+      }
+      this.#ws = null;
+      this.stop();
+      this.transitionToState(
+        ConnectionState.Error,
+        TransitionReason.FatalClose,
+      );
+      return;
+    }
+
+    if (failed) {
+      // the error event already scheduled the reconnect
+      return;
+    }
+
+    this.reconnectIfNeeded(
+      TransitionReason.SocketClosed,
+      ws,
+      typeof classification === "object" ? classification.retryAfter : null,
+    );
   }
 
-  handleWebSocketClosed(ws: WebSocket) {
-    this.reconnectIfNeeded(ws);
+  /**
+   * Notify that the server is alive (a message or heartbeat arrived). Resets the liveness deadline
+   */
+  handleWebSocketMessage() {
+    this.#lastMessageAt = Date.now();
+    if (this.#state === ConnectionState.Connected) {
+      this.startLivenessWatchdog();
+    }
   }
 
   /**
    * Notify the WebSocket that the application-level heartbeat timeout has occurred. Will trigger a reconnect
    */
   handleWebSocketHeartbeatTimeout() {
-    this.reconnectIfNeeded();
+    this.reconnectIfNeeded(TransitionReason.HeartbeatTimeout);
+  }
+
+  /**
+   * Drop a healthy connection on purpose and reconnect as the reconnect policy decides,
+   * e.g. to fail back to a preferred endpoint
+   */
+  reconnect(reason: TransitionReason) {
+    if (this.#state !== ConnectionState.Connected) {
+      return;
+    }
+
+    this.reconnectIfNeeded(reason);
+  }
+
+  private handleOnline() {
+    if (this.#state !== ConnectionState.Reconnecting) {
+      return;
+    }
+
+    this.logger.info("Network is back, reconnecting now");
+    this.reconnectNow(TransitionReason.BackOnline);
+  }
+
+  private handleOffline() {
+    if (this.#reconnectTimeout != null) {
+      this.logger.info("Network is offline, pausing reconnects");
+      clearTimeout(this.#reconnectTimeout);
+      this.#reconnectTimeout = null;
+    }
+  }
+
+  private handlePageVisible() {
+    if (this.#state === ConnectionState.Reconnecting) {
+      this.reconnectNow(TransitionReason.PageVisible);
+      return;
+    }
+
+    if (this.#state !== ConnectionState.Connected) {
+      return;
+    }
+
+    const { livenessTimeout } = this.options;
+    const silent =
+      livenessTimeout != null &&
+      Date.now() - this.#lastMessageAt >= livenessTimeout;
+    const closed = (this.#ws?.readyState ?? WEBSOCKET_OPEN) > WEBSOCKET_OPEN;
+    if (silent || closed) {
+      this.logger.info("Connection is dead after page became visible", {
+        silent,
+        closed,
+      });
+      this.reconnectIfNeeded(TransitionReason.PageVisible);
+    }
+  }
+
+  /**
+   * Skip the pending reconnect delay and create a socket right away
+   */
+  private reconnectNow(reason: TransitionReason) {
+    if (!this.active || this.hasSocket) {
+      return;
+    }
+
+    if (this.#reconnectTimeout != null) {
+      clearTimeout(this.#reconnectTimeout);
+      this.#reconnectTimeout = null;
+    }
+
+    this.logger.debug("Reconnecting immediately", { reason });
+    this.openSocket();
+  }
+
+  /**
+   * Whether a socket exists or is being created
+   */
+  private get hasSocket() {
+    return this.#ws != null || this.#opening != null;
+  }
+
+  private openSocket() {
+    const attempt = {};
+    this.#opening = attempt;
+
+    let result: ReturnType<createWebSocketFn>;
+    try {
+      result = this.createWs();
+    } catch (error) {
+      this.handleOpenFailure(attempt, error);
+      return;
+    }
+
+    if (result instanceof Promise) {
+      result.then(
+        (ws) => this.useSocket(attempt, ws),
+        (error) => this.handleOpenFailure(attempt, error),
+      );
+    } else {
+      this.useSocket(attempt, result);
+    }
+  }
+
+  private useSocket(attempt: object, ws: WebSocketIsh) {
+    if (this.#opening !== attempt) {
+      // Shut down or superseded while the socket was being created
+      ws.close();
+      return;
+    }
+
+    this.#opening = null;
+    this.#ws = ws;
+    this.#endpoint = ws.url ?? null;
+  }
+
+  private handleOpenFailure(attempt: object, error: unknown) {
+    if (this.#opening !== attempt) {
+      return;
+    }
+
+    this.#opening = null;
+    this.logger.warn("Failed to create WebSocket", { error });
+    this.dispatchEvent(new ConnectionErrorEvent(error));
+    this.reconnectIfNeeded(TransitionReason.SocketCreationFailed);
+  }
+
+  private completeHandshake(
+    handshake: AbortController,
+    outcome: HandshakeOutcome,
+    error?: unknown,
+  ) {
+    if (this.#handshake !== handshake || handshake.signal.aborted) {
+      return;
+    }
+
+    this.#handshake = null;
+    if (outcome.outcome === "success") {
+      this.transitionToState(
+        ConnectionState.Connected,
+        TransitionReason.HandshakeSucceeded,
+      );
+      return;
+    }
+
+    const fatal = outcome.outcome === "fatal";
+    this.logger.warn("Handshake failed", {
+      fatal,
+      reason: outcome.reason,
+      error,
+    });
+    this.dispatchEvent(new HandshakeFailedEvent(fatal, outcome.reason, error));
+
+    if (fatal) {
+      this.stop();
+      this.#ws?.close();
+      this.#ws = null;
+      this.transitionToState(
+        ConnectionState.Error,
+        TransitionReason.HandshakeRejected,
+      );
+      return;
+    }
+
+    this.reconnectIfNeeded(TransitionReason.HandshakeFailed);
+  }
+
+  private abortHandshake() {
+    this.#handshake?.abort();
+    this.#handshake = null;
   }
 
   private startConnectionWatchdog() {
     this.#connectionWatchdog = setTimeout(() => {
+      this.logger.warn("Handshake timed out", {
+        timeout: this.options.connectionTimeout,
+      });
       this.dispatchEvent(new Event("connectiontimeout"));
-      this.reconnectIfNeeded();
+      this.reconnectIfNeeded(TransitionReason.ConnectionTimeout);
     }, this.options.connectionTimeout);
   }
 
@@ -138,60 +443,203 @@ export class AlwaysConnected extends EventTarget {
     }
   }
 
-  private transitionToState(state: ConnectionStateType) {
+  private startLivenessWatchdog() {
+    this.stopLivenessWatchdog();
+    if (this.options.livenessTimeout == null) {
+      return;
+    }
+
+    this.#livenessWatchdog = setTimeout(() => {
+      this.#livenessWatchdog = null;
+      this.logger.warn("No inbound traffic, reconnecting", {
+        timeout: this.options.livenessTimeout,
+      });
+      this.dispatchEvent(new Event("heartbeattimeout"));
+      this.reconnectIfNeeded(TransitionReason.HeartbeatTimeout);
+    }, this.options.livenessTimeout);
+  }
+
+  private stopLivenessWatchdog() {
+    if (this.#livenessWatchdog != null) {
+      clearTimeout(this.#livenessWatchdog);
+      this.#livenessWatchdog = null;
+    }
+  }
+
+  private transitionToState(
+    state: ConnectionStateType,
+    reason: TransitionReason,
+  ) {
     if (this.#state === state) {
       return;
     }
 
+    const previousState = this.#state;
+    this.logger.info("Connection state changed", {
+      from: previousState,
+      to: state,
+      reason,
+    });
     this.#state = state;
 
     if (this.#state === ConnectionState.Limbo) {
       this.startConnectionWatchdog();
     } else if (this.#state === ConnectionState.Connected) {
       this.stopConnectionWatchdog();
+      this.startLivenessWatchdog();
+      this.#lastMessageAt = Date.now();
+      this.#reconnectAttempt = 0;
+      this.#lastReconnectDelay = 0;
+      this.#lastClose = null;
     }
 
-    this.dispatchEvent(new ConnectionStateChangeEvent(state));
+    const closeInfo =
+      reason === TransitionReason.SocketClosed ||
+      reason === TransitionReason.FatalClose
+        ? this.#lastClose
+        : null;
+    this.dispatchEvent(
+      new ConnectionStateChangeEvent(
+        state,
+        previousState,
+        reason,
+        closeInfo,
+        this.#endpoint,
+      ),
+    );
   }
 
-  private reconnectIfNeeded(eventTarget: WebSocket | null = null) {
+  private reconnectIfNeeded(
+    reason: TransitionReason,
+    eventTarget: WebSocket | null = null,
+    retryAfter: number | null = null,
+  ) {
     if (eventTarget != null && eventTarget !== this.#ws) {
       return;
     }
 
-    this.#connectionToken = null;
+    this.abortHandshake();
     if (!this.active) {
-      this.transitionToState(ConnectionState.Disconnected);
+      this.transitionToState(ConnectionState.Disconnected, reason);
       return;
     }
 
-    this.transitionToState(ConnectionState.Reconnecting);
     this.stopConnectionWatchdog();
+    this.stopLivenessWatchdog();
     this.#ws?.close();
     this.#ws = null;
 
-    setTimeout(() => {
-      if (!this.active || this.#ws != null) {
+    if (this.#reconnectTimeout != null) {
+      this.transitionToState(ConnectionState.Reconnecting, reason);
+      return;
+    }
+
+    const policy =
+      this.options.reconnectPolicy ?? fixedDelay(this.options.reconnectDelay);
+    const delay =
+      retryAfter ??
+      policy({
+        attempt: this.#reconnectAttempt + 1,
+        previousDelay: this.#lastReconnectDelay,
+        lastClose: this.#lastClose,
+      });
+
+    if (delay == null) {
+      this.logger.error("Reconnect policy gave up", {
+        attempts: this.#reconnectAttempt,
+        lastClose: this.#lastClose,
+      });
+      this.stop();
+      this.transitionToState(
+        ConnectionState.Error,
+        TransitionReason.ReconnectGaveUp,
+      );
+      return;
+    }
+
+    this.#reconnectAttempt++;
+    this.#lastReconnectDelay = delay;
+    this.transitionToState(ConnectionState.Reconnecting, reason);
+    this.logger.info("Reconnect scheduled", {
+      attempt: this.#reconnectAttempt,
+      delay,
+    });
+    this.dispatchEvent(
+      new ReconnectScheduledEvent(this.#reconnectAttempt, delay),
+    );
+
+    if (!(this.options.environment?.online ?? true)) {
+      this.logger.info("Network is offline, waiting for it to come back");
+      return;
+    }
+
+    this.#reconnectTimeout = setTimeout(() => {
+      this.#reconnectTimeout = null;
+      if (!this.active || this.hasSocket) {
         return;
       }
 
-      this.#ws = this.createWs();
-    }, this.options.reconnectDelay);
+      this.openSocket();
+    }, delay);
+  }
+
+  /**
+   * Release all timers and mark as inactive, leaving the socket and state to the caller
+   */
+  private stop() {
+    this.abortHandshake();
+    this.#opening = null;
+    if (this.#heartbeatTimeout != null) {
+      clearInterval(this.#heartbeatTimeout);
+      this.#heartbeatTimeout = null;
+    }
+
+    if (this.#reconnectTimeout != null) {
+      clearTimeout(this.#reconnectTimeout);
+      this.#reconnectTimeout = null;
+    }
+
+    this.#unsubscribeEnvironment?.();
+    this.#unsubscribeEnvironment = null;
+
+    this.stopConnectionWatchdog();
+    this.stopLivenessWatchdog();
+    this.#active = false;
+    this.#reconnectAttempt = 0;
+    this.#lastReconnectDelay = 0;
   }
 
   addEventListener<K extends keyof GreatWebSocketEventMap>(
     type: K,
-    listener: EventListenerOrEventListenerObject,
+    listener: GreatWebSocketEventListener<GreatWebSocketEventMap[K]>,
     options?: boolean | AddEventListenerOptions,
   ): void {
-    super.addEventListener(type, listener, options);
+    super.addEventListener(
+      type,
+      listener as EventListenerOrEventListenerObject,
+      options,
+    );
   }
 
   removeEventListener<K extends keyof GreatWebSocketEventMap>(
     type: K,
-    listener: EventListenerOrEventListenerObject,
+    listener: GreatWebSocketEventListener<GreatWebSocketEventMap[K]>,
     options?: boolean | EventListenerOptions,
   ): void {
-    super.removeEventListener(type, listener, options);
+    super.removeEventListener(
+      type,
+      listener as EventListenerOrEventListenerObject,
+      options,
+    );
   }
 }
+
+const WEBSOCKET_OPEN = 1;
+
+const toOutcome = (result: HandshakeResult): HandshakeOutcome => {
+  if (typeof result === "boolean") {
+    return result ? { outcome: "success" } : { outcome: "retry" };
+  }
+
+  return result;
+};
@@ -0,0 +1,298 @@
+/**
+ * The part of `BroadcastChannel` used for cross-tab messaging
+ */
+export interface CrossTabChannel {
+  postMessage(message: unknown): void;
+  onmessage: ((ev: MessageEvent) => void) | null;
+  close(): void;
+}
+
+export type CrossTabChannelFactory = (name: string) => CrossTabChannel;
+
+/**
+ * The part of the Web Locks API (`navigator.locks`) used for elections
+ */
+export interface CrossTabLocks {
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: () => Promise<void>,
+  ): Promise<unknown>;
+}
+
+export interface LeaderElectionOptions {
+  /**
+   * How often the leader announces itself. Defaults to 1 second
+   */
+  heartbeatInterval?: number;
+  /**
+   * Start a new election when the leader has been silent for this long. Defaults to 3 seconds
+   */
+  leaderTimeout?: number;
+  /**
+   * How long a candidate waits for objections before taking the lead. Defaults to 200 ms
+   */
+  electionTimeout?: number;
+  /**
+   * Elect the tab holding a Web Lock instead of relying on heartbeats, which browsers throttle in hidden tabs.
+   * Defaults to `navigator.locks` where available, `null` elects over the channel alone
+   */
+  locks?: CrossTabLocks | null;
+}
+
+type ElectionMessage =
+  | { kind: "claim"; from: string }
+  | { kind: "leader"; from: string; term: number }
+  | { kind: "resign"; from: string };
+
+export const defaultChannelFactory: CrossTabChannelFactory = (name) =>
+  new BroadcastChannel(name) as unknown as CrossTabChannel;
+
+export const randomTabId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const defaultLocks = (): CrossTabLocks | null =>
+  (globalThis.navigator as { locks?: CrossTabLocks | null } | undefined)
+    ?.locks ?? null;
+
+/**
+ * Elects one leader among all tabs sharing a channel.
+ *
+ * With Web Locks and a `lockName`, the tab holding the lock leads until it stops or closes and
+ * announces itself on the channel. Otherwise the candidate with the lowest id wins; the leader sends
+ * heartbeats and resigns when stopped, followers re-elect after `leaderTimeout`. Each election starts
+ * a new term, so a leader that was deposed while its timers were throttled yields to the newer one
+ */
+export class LeaderElection {
+  #leader: string | null = null;
+  #candidate = false;
+  #term = 0;
+  #electionTimeout: ReturnType<typeof setTimeout> | null = null;
+  #leaderWatchdog: ReturnType<typeof setTimeout> | null = null;
+  #heartbeat: ReturnType<typeof setInterval> | null = null;
+  #lockRequest: AbortController | null = null;
+  #releaseLock: (() => void) | null = null;
+
+  /**
+   * @param lockName - Web Lock held by the leader, shared by all tabs of the election. Elects over the channel alone when omitted
+   */
+  constructor(
+    private readonly channel: CrossTabChannel,
+    private readonly onLeaderChange: (leader: string | null) => void,
+    private readonly options: LeaderElectionOptions = {},
+    readonly id: string = randomTabId(),
+    private readonly lockName?: string,
+  ) {}
+
+  /**
+   * Id of the current leader tab, `null` while electing
+   */
+  get leader() {
+    return this.#leader;
+  }
+
+  get isLeader() {
+    return this.#leader === this.id;
+  }
+
+  start() {
+    this.channel.onmessage = (ev) =>
+      this.handleMessage(ev.data as ElectionMessage);
+
+    const locks =
+      this.options.locks === undefined ? defaultLocks() : this.options.locks;
+    if (locks != null && this.lockName != null) {
+      this.requestLock(locks, this.lockName);
+    } else {
+      this.claim();
+    }
+  }
+
+  /**
+   * Stop taking part in elections, handing the lead over if this tab holds it
+   */
+  stop() {
+    if (this.isLeader) {
+      this.post({ kind: "resign", from: this.id });
+    }
+
+    this.channel.onmessage = null;
+    this.clearTimers();
+    this.#lockRequest?.abort();
+    this.#lockRequest = null;
+    this.#releaseLock?.();
+    this.#releaseLock = null;
+    this.#candidate = false;
+    this.#leader = null;
+  }
+
+  private get locked() {
+    return this.#lockRequest != null;
+  }
+
+  /**
+   * Wait in the lock's queue and lead while holding it. The browser releases it when the tab goes away
+   */
+  private requestLock(locks: CrossTabLocks, name: string) {
+    const request = new AbortController();
+    this.#lockRequest = request;
+    // Learn who holds the lock already
+    this.post({ kind: "claim", from: this.id });
+
+    locks
+      .request(
+        name,
+        { signal: request.signal },
+        () =>
+          new Promise<void>((release) => {
+            if (request.signal.aborted) {
+              release();
+              return;
+            }
+
+            this.#releaseLock = release;
+            this.becomeLeader();
+          }),
+      )
+      .catch(() => {
+        // aborted by stop() while waiting
+      });
+  }
+
+  private handleMessage(message: ElectionMessage) {
+    switch (message.kind) {
+      case "claim":
+        if (this.isLeader) {
+          this.announce();
+        } else if (this.#candidate) {
+          if (message.from < this.id) {
+            this.#candidate = false;
+            this.stopElectionTimeout();
+            this.watchLeader();
+          } else {
+            this.post({ kind: "claim", from: this.id });
+          }
+        }
+        break;
+      case "leader":
+        if (this.locked) {
+          // the lock admits one leader at a time
+          if (!this.isLeader) {
+            this.setLeader(message.from);
+          }
+          return;
+        }
+
+        if (
+          this.isLeader &&
+          (message.term < this.#term ||
+            (message.term === this.#term && message.from > this.id))
+        ) {
+          // A deposed leader woke up, or two leaders after a split election: the newer term,
+          // then the lower id keeps the lead
+          this.announce();
+          return;
+        }
+        if (message.term < this.#term) {
+          return;
+        }
+
+        this.#term = message.term;
+        this.#candidate = false;
+        this.stopElectionTimeout();
+        this.stopHeartbeat();
+        this.setLeader(message.from);
+        this.watchLeader();
+        break;
+      case "resign":
+        if (message.from === this.#leader) {
+          this.setLeader(null);
+          if (!this.locked) {
+            this.claim();
+          }
+        }
+        break;
+    }
+  }
+
+  private claim() {
+    this.#candidate = true;
+    this.post({ kind: "claim", from: this.id });
+    this.stopElectionTimeout();
+    this.#electionTimeout = setTimeout(() => {
+      this.#electionTimeout = null;
+      if (this.#candidate) {
+        this.becomeLeader();
+      }
+    }, this.options.electionTimeout ?? 200);
+  }
+
+  private becomeLeader() {
+    this.#candidate = false;
+    this.#term++;
+    this.stopLeaderWatchdog();
+    this.setLeader(this.id);
+    this.announce();
+    if (this.locked) {
+      return;
+    }
+
+    this.#heartbeat = setInterval(
+      () => this.announce(),
+      this.options.heartbeatInterval ?? 1000,
+    );
+  }
+
+  private announce() {
+    this.post({ kind: "leader", from: this.id, term: this.#term });
+  }
+
+  private setLeader(leader: string | null) {
+    if (this.#leader === leader) {
+      return;
+    }
+
+    this.#leader = leader;
+    this.onLeaderChange(leader);
+  }
+
+  private watchLeader() {
+    this.stopLeaderWatchdog();
+    this.#leaderWatchdog = setTimeout(() => {
+      this.#leaderWatchdog = null;
+      this.setLeader(null);
+      this.claim();
+    }, this.options.leaderTimeout ?? 3000);
+  }
+
+  private post(message: ElectionMessage) {
+    this.channel.postMessage(message);
+  }
+
+  private stopElectionTimeout() {
+    if (this.#electionTimeout != null) {
+      clearTimeout(this.#electionTimeout);
+      this.#electionTimeout = null;
+    }
+  }
+
+  private stopLeaderWatchdog() {
+    if (this.#leaderWatchdog != null) {
+      clearTimeout(this.#leaderWatchdog);
+      this.#leaderWatchdog = null;
+    }
+  }
+
+  private stopHeartbeat() {
+    if (this.#heartbeat != null) {
+      clearInterval(this.#heartbeat);
+      this.#heartbeat = null;
+    }
+  }
+
+  private clearTimers() {
+    this.stopElectionTimeout();
+    this.stopLeaderWatchdog();
+    this.stopHeartbeat();
+  }
+}
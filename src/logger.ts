@@ -0,0 +1,52 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives structured log records. Route them to the console, your telemetry, or nowhere
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const levels: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+const noop = () => {};
+
+/**
+ * Discards everything
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+/**
+ * Writes records at or above `minLevel` to the console
+ */
+export const consoleLogger = (minLevel: LogLevel = "warn"): Logger => {
+  const enabled = (level: LogLevel) =>
+    levels.indexOf(level) >= levels.indexOf(minLevel);
+
+  return {
+    debug: enabled("debug")
+      ? (message, fields) => console.debug(message, fields ?? {})
+      : noop,
+    info: enabled("info")
+      ? (message, fields) => console.info(message, fields ?? {})
+      : noop,
+    warn: enabled("warn")
+      ? (message, fields) => console.warn(message, fields ?? {})
+      : noop,
+    error: enabled("error")
+      ? (message, fields) => console.error(message, fields ?? {})
+      : noop,
+  };
+};
+
+export const defaultLogger = consoleLogger("warn");
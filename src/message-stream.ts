@@ -0,0 +1,186 @@
+import { MessageBufferOverflowError } from "./errors";
+
+/**
+ * What to do when a message arrives for a consumer whose buffer is full:
+ * - `drop-oldest` — evict the oldest buffered message to make room
+ * - `drop-newest` — drop the new message
+ * - `error` — fail the consumer with `MessageBufferOverflowError` once it has read the buffered messages
+ */
+export type MessageBufferOverflowStrategy =
+  | "drop-oldest"
+  | "drop-newest"
+  | "error";
+
+export interface MessageStreamOptions {
+  /**
+   * End the iteration, or close the stream, once aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Maximum number of messages buffered while the consumer isn't reading. Defaults to 1000
+   */
+  bufferSize?: number;
+  overflow?: MessageBufferOverflowStrategy;
+}
+
+interface Reader<T> {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Buffers messages for one consumer of `GreatWebSocket.messages()`, or the progress of a `callStream()`
+ */
+export class MessageQueue<T> implements AsyncIterableIterator<T> {
+  #buffer: T[] = [];
+  #readers: Reader<T>[] = [];
+  #closed = false;
+  #failure: { error: unknown } | null = null;
+
+  constructor(
+    private readonly options: MessageStreamOptions,
+    private readonly onClose: (queue: MessageQueue<T>) => void,
+  ) {
+    const { signal } = options;
+    if (signal?.aborted) {
+      this.close();
+      return;
+    }
+
+    signal?.addEventListener("abort", this.#abort, { once: true });
+  }
+
+  /**
+   * Whether the queue stopped accepting messages
+   */
+  get closed() {
+    return this.#closed;
+  }
+
+  push(value: T) {
+    if (this.#closed) {
+      return;
+    }
+
+    const reader = this.#readers.shift();
+    if (reader != null) {
+      reader.resolve({ value, done: false });
+      return;
+    }
+
+    const bufferSize = this.options.bufferSize ?? 1000;
+    if (this.#buffer.length >= bufferSize) {
+      const overflow = this.options.overflow ?? "drop-oldest";
+      if (overflow === "error") {
+        this.fail(new MessageBufferOverflowError(bufferSize));
+        return;
+      }
+
+      if (overflow === "drop-newest") {
+        return;
+      }
+
+      this.#buffer.shift();
+    }
+
+    this.#buffer.push(value);
+  }
+
+  /**
+   * Stop accepting messages and throw `error` once the buffered ones are read
+   */
+  fail(error: unknown) {
+    if (!this.#closed) {
+      this.#failure = { error };
+      this.close();
+    }
+  }
+
+  /**
+   * Stop accepting messages. Buffered ones can still be read before the iteration ends
+   */
+  close() {
+    if (this.#closed) {
+      return;
+    }
+
+    this.#closed = true;
+    this.options.signal?.removeEventListener("abort", this.#abort);
+    this.onClose(this);
+
+    for (const reader of this.#readers.splice(0)) {
+      this.settle(reader);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.#buffer.length > 0) {
+      return Promise.resolve({ value: this.#buffer.shift() as T, done: false });
+    }
+
+    return new Promise((resolve, reject) => {
+      if (this.#closed) {
+        this.settle({ resolve, reject });
+      } else {
+        this.#readers.push({ resolve, reject });
+      }
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    this.#buffer = [];
+    this.#failure = null;
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  #abort = () => {
+    this.#buffer = [];
+    this.close();
+  };
+
+  private settle(reader: Reader<T>) {
+    const failure = this.#failure;
+    if (failure != null) {
+      this.#failure = null;
+      reader.reject(failure.error);
+    } else {
+      reader.resolve({ value: undefined, done: true });
+    }
+  }
+}
+
+/**
+ * Expose `messages` as a `ReadableStream`. Messages are only pulled when the reader asks for them,
+ * so a slow reader is subject to the buffering limits of `messages`.
+ * Throws where `ReadableStream` is missing, e.g. Node.js before 18
+ */
+export const toReadableStream = <T>(messages: AsyncIterator<T>) => {
+  if (typeof ReadableStream === "undefined") {
+    void messages.return?.();
+    throw new Error(
+      "ReadableStream is not available in this environment, iterate over messages() instead",
+    );
+  }
+
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        const { value, done } = await messages.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel() {
+        await messages.return?.();
+      },
+    },
+    { highWaterMark: 0 },
+  );
+};
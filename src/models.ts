@@ -10,12 +10,71 @@ export const ConnectionState = {
 export type ConnectionState =
   (typeof ConnectionState)[keyof typeof ConnectionState];
 
+/**
+ * Why the connection moved into its current state
+ */
+export const TransitionReason = {
+  Activated: "activated",
+  Opened: "opened",
+  HandshakeSucceeded: "handshake-succeeded",
+  SocketError: "socket-error",
+  SocketClosed: "socket-closed",
+  ConnectionTimeout: "connection-timeout",
+  HeartbeatTimeout: "heartbeat-timeout",
+  ReconnectGaveUp: "reconnect-gave-up",
+  FatalClose: "fatal-close",
+  HandshakeFailed: "handshake-failed",
+  HandshakeRejected: "handshake-rejected",
+  BackOnline: "back-online",
+  PageVisible: "page-visible",
+  Failback: "failback",
+  SocketCreationFailed: "socket-creation-failed",
+  Shutdown: "shutdown",
+} as const;
+
+export type TransitionReason =
+  (typeof TransitionReason)[keyof typeof TransitionReason];
+
 export interface WebSocketIsh {
+  readonly readyState?: number;
+  readonly url?: string;
   close(): void;
 }
 
-export type createWebSocketFn = () => WebSocketIsh;
+export type WebSocketData = string | ArrayBufferLike | Blob | ArrayBufferView;
+
+/**
+ * Creates the socket for a connection attempt. May resolve asynchronously, e.g. after fetching a fresh token.
+ * A throw or rejection counts as a failed attempt and goes through the reconnect policy
+ */
+export type createWebSocketFn = () => WebSocketIsh | Promise<WebSocketIsh>;
 export type heartbeatFn = (
   ws: WebSocketIsh,
   timeSinceLastHeartbeat: number,
 ) => void;
+
+/**
+ * Result of the application-level handshake:
+ * - `success` — move to `connected`
+ * - `retry` — reconnect right away (the reconnect policy still applies)
+ * - `fatal` — give up and move to the `error` state
+ */
+export type HandshakeOutcome =
+  | { outcome: "success" }
+  | { outcome: "retry"; reason?: string }
+  | { outcome: "fatal"; reason?: string };
+
+/**
+ * `true` and `false` are shorthands for `success` and `retry`
+ */
+export type HandshakeResult = boolean | HandshakeOutcome;
+
+/**
+ * Application-level handshake, run in `limbo` once the transport is open.
+ * `signal` is aborted if the connection drops before the handshake completes.
+ * A thrown error counts as a retryable failure.
+ */
+export type handshakeFn = (
+  ws: WebSocketIsh,
+  signal: AbortSignal,
+) => Promise<HandshakeResult>;
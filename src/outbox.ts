@@ -0,0 +1,109 @@
+import { OutboxOverflowError } from "./errors";
+import type { WebSocketData } from "./models";
+
+/**
+ * What to do when a message is queued into a full outbox:
+ * - `drop-oldest` — evict the oldest queued message to make room
+ * - `drop-newest` — drop the new message, `send()` returns `false`
+ * - `reject` — throw `OutboxOverflowError`
+ */
+export type OutboxOverflowStrategy = "drop-oldest" | "drop-newest" | "reject";
+
+export interface OutboxOptions {
+  /**
+   * Maximum number of queued messages
+   */
+  maxSize: number;
+  overflow?: OutboxOverflowStrategy;
+  /**
+   * Default time in milliseconds a queued message stays valid. Never expires when omitted
+   */
+  ttl?: number;
+  /**
+   * Whether queued messages are flushed as soon as the transport is open, during `limbo`.
+   * Defaults to `false`: they wait for `connected`
+   */
+  allowLimbo?: boolean;
+}
+
+export interface SendOptions {
+  /**
+   * Overrides the outbox `ttl` for this message
+   */
+  ttl?: number;
+  /**
+   * Send during `limbo` too, e.g. handshake messages from `onConnectedFn`.
+   * Overrides the outbox `allowLimbo` for this message
+   */
+  allowLimbo?: boolean;
+}
+
+interface OutboxEntry {
+  data: WebSocketData;
+  expiresAt: number;
+  allowLimbo: boolean;
+}
+
+export class Outbox {
+  #entries: OutboxEntry[] = [];
+
+  constructor(private readonly options: OutboxOptions) {}
+
+  get size() {
+    return this.#entries.length;
+  }
+
+  /**
+   * Queue a message, applying the overflow strategy when full
+   *
+   * @returns `false` if the message was dropped
+   */
+  enqueue(data: WebSocketData, options: SendOptions = {}): boolean {
+    this.dropExpired();
+
+    if (this.#entries.length >= this.options.maxSize) {
+      const overflow = this.options.overflow ?? "drop-oldest";
+      if (overflow === "reject") {
+        throw new OutboxOverflowError(this.options.maxSize);
+      }
+
+      if (overflow === "drop-newest") {
+        return false;
+      }
+
+      this.#entries.shift();
+    }
+
+    const ttl = options.ttl ?? this.options.ttl;
+    this.#entries.push({
+      data,
+      expiresAt: ttl != null ? Date.now() + ttl : Number.POSITIVE_INFINITY,
+      allowLimbo: options.allowLimbo ?? this.options.allowLimbo ?? false,
+    });
+
+    return true;
+  }
+
+  /**
+   * Remove and return the messages that may be sent now, in order
+   *
+   * @param limbo - Whether the connection is still in `limbo`
+   */
+  take(limbo: boolean): WebSocketData[] {
+    this.dropExpired();
+
+    const ready = this.#entries.filter((entry) => !limbo || entry.allowLimbo);
+    this.#entries = this.#entries.filter((entry) => !ready.includes(entry));
+
+    return ready.map((entry) => entry.data);
+  }
+
+  clear() {
+    this.#entries = [];
+  }
+
+  private dropExpired() {
+    const now = Date.now();
+    this.#entries = this.#entries.filter((entry) => entry.expiresAt > now);
+  }
+}
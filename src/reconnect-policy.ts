@@ -0,0 +1,143 @@
+export interface CloseInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+/**
+ * How to react to a closed connection:
+ * - `retry` — reconnect as the reconnect policy decides
+ * - `{ retryAfter }` — reconnect after exactly this many milliseconds
+ * - `stop` — give up and move to the `error` state
+ */
+export type CloseClassification = "retry" | "stop" | { retryAfter: number };
+
+export type CloseClassifier = (close: CloseInfo) => CloseClassification;
+
+export interface CloseCodeClassifierOptions {
+  /**
+   * Close codes after which reconnecting is pointless, e.g. 1008 (policy violation)
+   * or an application-specific "auth revoked"
+   */
+  stop?: number[];
+  /**
+   * Close codes mapped to a fixed delay before reconnecting, e.g. 1013 (try again later)
+   */
+  retryAfter?: Record<number, number>;
+}
+
+export interface ReconnectAttempt {
+  /**
+   * 1-based number of the upcoming reconnect attempt since the last successful connection
+   */
+  attempt: number;
+  /**
+   * Delay used for the previous attempt, `0` for the first one
+   */
+  previousDelay: number;
+  /**
+   * Close details of the socket that triggered the reconnect, if known
+   */
+  lastClose: CloseInfo | null;
+}
+
+/**
+ * Decides how long to wait before the next reconnect attempt.
+ * Return a delay in milliseconds, or `null` to give up and move to the `error` state.
+ */
+export type ReconnectPolicy = (attempt: ReconnectAttempt) => number | null;
+
+export interface FixedDelayOptions {
+  maxAttempts?: number;
+}
+
+export interface ExponentialBackoffOptions {
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  /**
+   * Fraction of the delay (0..1) randomized to spread clients apart
+   */
+  jitter?: number;
+  maxAttempts?: number;
+}
+
+export interface DecorrelatedJitterOptions {
+  baseDelay?: number;
+  maxDelay?: number;
+  maxAttempts?: number;
+}
+
+const exceeds = (attempt: number, maxAttempts: number | undefined) =>
+  maxAttempts != null && attempt > maxAttempts;
+
+/**
+ * Always wait the same amount of time
+ */
+export const fixedDelay =
+  (delay: number, options: FixedDelayOptions = {}): ReconnectPolicy =>
+  ({ attempt }) =>
+    exceeds(attempt, options.maxAttempts) ? null : delay;
+
+/**
+ * Double (or multiply by `factor`) the delay on every attempt, capped at `maxDelay`
+ */
+export const exponentialBackoff = (
+  options: ExponentialBackoffOptions = {},
+): ReconnectPolicy => {
+  const {
+    initialDelay = 1000,
+    maxDelay = 30000,
+    factor = 2,
+    jitter = 0,
+    maxAttempts,
+  } = options;
+
+  return ({ attempt }) => {
+    if (exceeds(attempt, maxAttempts)) {
+      return null;
+    }
+
+    const delay = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+    const spread = delay * jitter;
+    return Math.min(
+      maxDelay,
+      Math.round(delay - spread + Math.random() * spread * 2),
+    );
+  };
+};
+
+/**
+ * "Decorrelated jitter" from the AWS architecture blog: each delay is random
+ * between `baseDelay` and three times the previous delay
+ */
+export const decorrelatedJitter = (
+  options: DecorrelatedJitterOptions = {},
+): ReconnectPolicy => {
+  const { baseDelay = 1000, maxDelay = 30000, maxAttempts } = options;
+
+  return ({ attempt, previousDelay }) => {
+    if (exceeds(attempt, maxAttempts)) {
+      return null;
+    }
+
+    const upper = Math.max(baseDelay, previousDelay * 3);
+    return Math.round(
+      Math.min(maxDelay, baseDelay + Math.random() * (upper - baseDelay)),
+    );
+  };
+};
+
+/**
+ * Classify closes by their code. Codes not listed are retried
+ */
+export const closeCodeClassifier =
+  (options: CloseCodeClassifierOptions): CloseClassifier =>
+  ({ code }) => {
+    if (options.stop?.includes(code)) {
+      return "stop";
+    }
+
+    const retryAfter = options.retryAfter?.[code];
+    return retryAfter != null ? { retryAfter } : "retry";
+  };
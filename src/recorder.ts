@@ -0,0 +1,219 @@
+import type {
+  ConnectionClosedEvent,
+  ConnectionErrorEvent,
+  ConnectionStateChangeEvent,
+  HandshakeFailedEvent,
+  ReconnectScheduledEvent,
+  RpcCompleteEvent,
+} from "./events";
+import type {
+  ConnectionState,
+  TransitionReason,
+  WebSocketData,
+} from "./models";
+
+export type FrameDirection = "inbound" | "outbound";
+
+/**
+ * A frame in a JSON-friendly form. Binary frames are base64-encoded, blobs can't be read
+ * synchronously and only keep their size
+ */
+export interface RecordedFrame {
+  encoding: "text" | "base64" | "omitted";
+  data: string;
+  size: number;
+}
+
+export type RecordedEvent =
+  | { type: "socket"; url: string }
+  | {
+      type: "state";
+      state: ConnectionState;
+      previousState: ConnectionState | null;
+      reason: TransitionReason | null;
+    }
+  | { type: FrameDirection; frame: RecordedFrame }
+  | { type: "call"; command: string; rpcId?: string }
+  | {
+      type: "rpccomplete";
+      command: string;
+      rpcId?: string;
+      elapsed: number;
+      error?: string;
+    }
+  | { type: "closed"; code: number; reason: string; wasClean: boolean }
+  | { type: "error"; error?: string }
+  | { type: "handshakefailed"; fatal: boolean; reason?: string }
+  | { type: "reconnectscheduled"; attempt: number; delay: number }
+  | { type: "connectiontimeout" }
+  | { type: "heartbeattimeout" };
+
+export type RecordedEntry = RecordedEvent & {
+  /**
+   * `Date.now()` when the entry was recorded
+   */
+  time: number;
+};
+
+export interface SessionRecording {
+  version: 1;
+  /**
+   * Oldest entries evicted from the ring buffer
+   */
+  dropped: number;
+  entries: RecordedEntry[];
+}
+
+export interface RecorderOptions {
+  /**
+   * Number of entries kept, older ones are evicted. Defaults to 1000
+   */
+  capacity?: number;
+  /**
+   * Replace a frame before it is recorded, e.g. to mask tokens. Return `null` to keep only its size
+   */
+  redact?: (
+    data: WebSocketData,
+    direction: FrameDirection,
+  ) => WebSocketData | null;
+}
+
+const describeError = (error: unknown) =>
+  error === undefined
+    ? undefined
+    : error instanceof Error
+      ? `${error.name}: ${error.message}`
+      : String(error);
+
+const encoder = new TextEncoder();
+
+const toBytes = (data: ArrayBufferLike | ArrayBufferView) =>
+  ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+
+const isBlob = (data: WebSocketData): data is Blob =>
+  typeof Blob !== "undefined" && data instanceof Blob;
+
+const sizeOf = (data: WebSocketData) =>
+  typeof data === "string"
+    ? encoder.encode(data).byteLength
+    : isBlob(data)
+      ? data.size
+      : toBytes(data).byteLength;
+
+export const encodeFrame = (data: WebSocketData | null): RecordedFrame => {
+  if (typeof data === "string") {
+    return { encoding: "text", data, size: sizeOf(data) };
+  }
+  if (data == null || isBlob(data)) {
+    return { encoding: "omitted", data: "", size: data?.size ?? 0 };
+  }
+
+  const bytes = toBytes(data);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return { encoding: "base64", data: btoa(binary), size: bytes.byteLength };
+};
+
+/**
+ * @returns the recorded frame, or `null` when it was omitted
+ */
+export const decodeFrame = (frame: RecordedFrame): WebSocketData | null => {
+  switch (frame.encoding) {
+    case "text":
+      return frame.data;
+    case "base64":
+      return Uint8Array.from(atob(frame.data), (char) => char.charCodeAt(0))
+        .buffer;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Keeps a timestamped ring buffer of what happened on a connection, see `GreatWebSocket.getRecording()`
+ */
+export class SessionRecorder {
+  #entries: RecordedEntry[] = [];
+  #dropped = 0;
+
+  constructor(private readonly options: RecorderOptions = {}) {}
+
+  /**
+   * Record the lifecycle events dispatched on `target`
+   */
+  observe(target: EventTarget) {
+    target.addEventListener("statechange", (ev) => {
+      const { state, previousState, reason } = ev as ConnectionStateChangeEvent;
+      this.record({ type: "state", state, previousState, reason });
+    });
+    target.addEventListener("closed", (ev) => {
+      const { code, reason, wasClean } = ev as ConnectionClosedEvent;
+      this.record({ type: "closed", code, reason, wasClean });
+    });
+    target.addEventListener("error", (ev) =>
+      this.record({
+        type: "error",
+        error: describeError((ev as ConnectionErrorEvent).error),
+      }),
+    );
+    target.addEventListener("handshakefailed", (ev) => {
+      const { fatal, reason } = ev as HandshakeFailedEvent;
+      this.record({ type: "handshakefailed", fatal, reason });
+    });
+    target.addEventListener("reconnectscheduled", (ev) => {
+      const { attempt, delay } = ev as ReconnectScheduledEvent;
+      this.record({ type: "reconnectscheduled", attempt, delay });
+    });
+    target.addEventListener("connectiontimeout", () =>
+      this.record({ type: "connectiontimeout" }),
+    );
+    target.addEventListener("heartbeattimeout", () =>
+      this.record({ type: "heartbeattimeout" }),
+    );
+    target.addEventListener("rpccomplete", (ev) => {
+      const { command, rpcId, elapsed, error } = ev as RpcCompleteEvent;
+      this.record({
+        type: "rpccomplete",
+        command: command.constructor.name,
+        rpcId,
+        elapsed,
+        error: describeError(error),
+      });
+    });
+  }
+
+  recordFrame(direction: FrameDirection, data: WebSocketData) {
+    const redacted =
+      this.options.redact != null ? this.options.redact(data, direction) : data;
+    const frame = encodeFrame(redacted);
+    if (redacted == null) {
+      frame.size = sizeOf(data);
+    }
+    this.record({ type: direction, frame });
+  }
+
+  record(event: RecordedEvent) {
+    this.#entries.push({ ...event, time: Date.now() });
+    if (this.#entries.length > (this.options.capacity ?? 1000)) {
+      this.#entries.shift();
+      this.#dropped++;
+    }
+  }
+
+  clear() {
+    this.#entries = [];
+    this.#dropped = 0;
+  }
+
+  snapshot(): SessionRecording {
+    return {
+      version: 1,
+      dropped: this.#dropped,
+      entries: this.#entries.map((entry) => ({ ...entry })),
+    };
+  }
+}
@@ -1,9 +1,139 @@
+import type { MessageStreamOptions } from "./message-stream";
+import type { WebSocketData } from "./models";
 import type { GreatWebSocket } from "./websocket";
 
-export interface RemoteCommand {
-  execute(ws: GreatWebSocket): string;
+/**
+ * A request/response exchange with the server. `Out` is the message type the socket's codec sends
+ */
+export interface RemoteCommand<Out = WebSocketData> {
+  // biome-ignore lint/suspicious/noExplicitAny: commands don't depend on the decoded inbound type
+  execute(ws: GreatWebSocket<any, Out>): string;
   responseMatches: (json: unknown) => boolean;
   handleResponse(json: unknown): unknown;
 }
 
+/**
+ * A command answered by several messages: progress updates, then a final response.
+ * It stays pending until a matching message is final
+ */
+export interface StreamingCommand<Out = WebSocketData>
+  extends RemoteCommand<Out> {
+  /**
+   * Whether a matching message is the final response, handled by `handleResponse()`
+   */
+  isFinal(json: unknown): boolean;
+  /**
+   * Turn a matching message that isn't final into a progress value. The message itself is used when omitted
+   */
+  handleProgress?(json: unknown): unknown;
+  /**
+   * Tell the server to stop, called when the call times out or is aborted while connected
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: commands don't depend on the decoded inbound type
+  cancel?(ws: GreatWebSocket<any, Out>): void;
+}
+
+/**
+ * Progress of a `callStream()`. Iterate over it for the progress values, the iteration ends once the
+ * final response arrives and throws if the call fails. Leaving the loop early cancels the call
+ */
+export interface StreamingCall<P = unknown, R = unknown>
+  extends AsyncIterable<P> {
+  /**
+   * Resolves with the final response
+   */
+  readonly result: Promise<R>;
+  /**
+   * Abort the call, rejecting `result` with `RpcAbortedError`
+   */
+  cancel(reason?: unknown): void;
+}
+
 export type ResponseMatcher = (message: unknown, messageId: string) => boolean;
+
+/**
+ * What happens to an in-flight command when the connection drops:
+ * - `reject` — reject with `ConnectionLostError`
+ * - `reexecute` — call `execute()` again once the connection is back
+ */
+export type ConnectionLostPolicy = "reject" | "reexecute";
+
+export interface CallOptions {
+  /**
+   * Reject with `RpcTimeoutError` if no response arrives within this many milliseconds.
+   * Overrides the `rpcTimeout` passed to `GreatWebSocket`
+   */
+  timeout?: number;
+  /**
+   * Reject with `RpcAbortedError` and forget the command once aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Overrides the `onConnectionLost` passed to `GreatWebSocket`
+   */
+  onConnectionLost?: ConnectionLostPolicy;
+  /**
+   * Receives the progress values of a `StreamingCommand` before its final response
+   */
+  onProgress?: (progress: unknown) => void;
+}
+
+/**
+ * Options of `callStream()`. Progress values the loop hasn't read yet are buffered like `messages()`
+ */
+export interface StreamingCallOptions
+  extends CallOptions,
+    Pick<MessageStreamOptions, "bufferSize" | "overflow"> {}
+
+/**
+ * A command, or a factory creating a fresh command each time it is executed
+ */
+export type CommandSource<Out = WebSocketData> =
+  | RemoteCommand<Out>
+  | (() => RemoteCommand<Out>);
+
+/**
+ * A request the server sent to the client
+ */
+export interface IncomingRequest<P = unknown> {
+  /**
+   * Identifies the response. `undefined` for notifications, which get no response
+   */
+  id?: unknown;
+  method: string;
+  params: P;
+}
+
+/**
+ * Answers a server-initiated request. The result, or the thrown error, is sent back to the server
+ */
+export type RequestHandler<P = unknown> = (
+  params: P,
+  request: IncomingRequest<P>,
+) => unknown;
+
+/**
+ * How server-initiated requests and the client's responses look on the wire
+ */
+export interface RequestProtocol<In = unknown, Out = WebSocketData> {
+  /**
+   * The request carried by `message`, or `null` if it isn't one
+   */
+  parse(message: In): IncomingRequest | null;
+  /**
+   * Build the response for a handler's result
+   */
+  result(request: IncomingRequest, result: unknown): Out;
+  /**
+   * Build the response for a handler's error, or a `MethodNotFoundError` when no handler is registered
+   */
+  error(request: IncomingRequest, error: unknown): Out;
+}
+
+export interface Subscription {
+  readonly key: string;
+  /**
+   * Forget the subscription and, when connected, execute its unsubscribe command
+   */
+  unsubscribe(): Promise<void>;
+}
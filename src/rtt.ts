@@ -0,0 +1,133 @@
+/**
+ * - `unknown` — not connected, or no ping answered yet
+ * - `good` — within all thresholds
+ * - `degraded` — still connected, but RTT, jitter or packet loss crossed a threshold
+ */
+export type ConnectionQuality = "unknown" | "good" | "degraded";
+
+export interface QualityThresholds {
+  /**
+   * Smoothed RTT in milliseconds above which the connection is degraded. Defaults to 1000
+   */
+  rtt?: number;
+  /**
+   * Jitter in milliseconds above which the connection is degraded. Not checked when omitted
+   */
+  jitter?: number;
+  /**
+   * Share of lost pings (0..1) above which the connection is degraded. Defaults to 0.2
+   */
+  loss?: number;
+}
+
+export interface PingOptions<In, Out> {
+  /**
+   * Send a ping this often while connected
+   */
+  interval: number;
+  /**
+   * A ping without a pong after this long counts as lost. Defaults to `interval`
+   */
+  timeout?: number;
+  /**
+   * Build the ping message carrying `id`
+   */
+  createPing(id: number): Out;
+  /**
+   * The id of the ping answered by `message`, or `null` if it isn't a pong.
+   * Pongs are consumed and don't reach `onMessageFn`
+   */
+  matchPong(message: In): number | null;
+  thresholds?: QualityThresholds;
+  /**
+   * Number of recent pings packet loss is computed over. Defaults to 20
+   */
+  lossWindow?: number;
+}
+
+export interface RttStats {
+  /**
+   * Last measured round trip in milliseconds
+   */
+  last: number | null;
+  /**
+   * Exponentially smoothed RTT, as in RFC 6298
+   */
+  smoothed: number | null;
+  /**
+   * Smoothed mean deviation of the RTT
+   */
+  jitter: number | null;
+  /**
+   * Share of lost pings among the recent ones (0..1)
+   */
+  loss: number;
+}
+
+/**
+ * Smooths RTT samples and tracks packet loss over a sliding window
+ */
+export class RttEstimator {
+  #last: number | null = null;
+  #smoothed: number | null = null;
+  #jitter: number | null = null;
+  #outcomes: boolean[] = [];
+
+  constructor(private readonly lossWindow = 20) {}
+
+  get stats(): RttStats {
+    const lost = this.#outcomes.filter((answered) => !answered).length;
+    return {
+      last: this.#last,
+      smoothed: this.#smoothed,
+      jitter: this.#jitter,
+      loss: this.#outcomes.length > 0 ? lost / this.#outcomes.length : 0,
+    };
+  }
+
+  recordSample(rtt: number) {
+    this.#last = rtt;
+    if (this.#smoothed == null || this.#jitter == null) {
+      this.#smoothed = rtt;
+      this.#jitter = rtt / 2;
+    } else {
+      this.#jitter =
+        0.75 * this.#jitter + 0.25 * Math.abs(this.#smoothed - rtt);
+      this.#smoothed = 0.875 * this.#smoothed + 0.125 * rtt;
+    }
+    this.recordOutcome(true);
+  }
+
+  recordLoss() {
+    this.recordOutcome(false);
+  }
+
+  reset() {
+    this.#last = null;
+    this.#smoothed = null;
+    this.#jitter = null;
+    this.#outcomes = [];
+  }
+
+  classify(thresholds: QualityThresholds = {}): ConnectionQuality {
+    if (this.#outcomes.length === 0) {
+      return "unknown";
+    }
+
+    const { smoothed, jitter, loss } = this.stats;
+    const degraded =
+      loss > (thresholds.loss ?? 0.2) ||
+      (smoothed != null && smoothed > (thresholds.rtt ?? 1000)) ||
+      (thresholds.jitter != null &&
+        jitter != null &&
+        jitter > thresholds.jitter);
+    return degraded ? "degraded" : "good";
+  }
+
+  private recordOutcome(answered: boolean) {
+    this.#outcomes.push(answered);
+    if (this.#outcomes.length > this.lossWindow) {
+      this.#outcomes.shift();
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import type { WebSocketData } from "./models";
+
+export interface BackpressureOptions {
+  /**
+   * `bufferedAmount` in bytes from which `sendAsync()` waits for the buffer to drain. Defaults to 1 MiB
+   */
+  highWaterMark?: number;
+  /**
+   * How often `bufferedAmount` is checked while above the high-water mark, in milliseconds. Defaults to 50
+   */
+  pollInterval?: number;
+}
+
+interface SendQueueEntry {
+  data: WebSocketData;
+  resolve: (sent: boolean) => void;
+}
+
+/**
+ * Holds messages back while the socket's send buffer is above the high-water mark.
+ * Browsers don't report the buffer draining, so `bufferedAmount` is polled while it's high
+ */
+export class SendQueue {
+  #entries: SendQueueEntry[] = [];
+  #pollInterval: ReturnType<typeof setInterval> | null = null;
+  #congested = false;
+
+  constructor(
+    private readonly options: BackpressureOptions,
+    private readonly bufferedAmount: () => number,
+    private readonly transmit: (data: WebSocketData) => void,
+    private readonly onDrain: () => void,
+  ) {}
+
+  get size() {
+    return this.#entries.length;
+  }
+
+  /**
+   * Transmit `data` right away if nothing is waiting and the buffer has room, otherwise once it drains
+   *
+   * @returns resolves with `true` once transmitted, or with the fallback's result when released
+   */
+  send(data: WebSocketData): Promise<boolean> {
+    if (this.#entries.length === 0 && !this.full) {
+      this.transmit(data);
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      this.#entries.push({ data, resolve });
+      this.watch();
+    });
+  }
+
+  /**
+   * Start polling if a transmission pushed the buffer above the high-water mark
+   */
+  watch() {
+    if (!this.full && this.#entries.length === 0) {
+      return;
+    }
+
+    this.#congested = true;
+    this.#pollInterval ??= setInterval(
+      () => this.flush(),
+      this.options.pollInterval ?? 50,
+    );
+  }
+
+  /**
+   * Stop polling and hand the waiting messages to `fallback`, e.g. when the connection dropped
+   */
+  release(fallback: (data: WebSocketData) => boolean) {
+    this.stopPolling();
+    this.#congested = false;
+    for (const entry of this.#entries.splice(0)) {
+      entry.resolve(fallback(entry.data));
+    }
+  }
+
+  private get full() {
+    return this.bufferedAmount() >= (this.options.highWaterMark ?? 1048576);
+  }
+
+  private flush() {
+    while (this.#entries.length > 0 && !this.full) {
+      const entry = this.#entries.shift() as SendQueueEntry;
+      this.transmit(entry.data);
+      entry.resolve(true);
+    }
+
+    if (this.#entries.length > 0 || this.full) {
+      return;
+    }
+
+    this.stopPolling();
+    if (this.#congested) {
+      this.#congested = false;
+      this.onDrain();
+    }
+  }
+
+  private stopPolling() {
+    if (this.#pollInterval != null) {
+      clearInterval(this.#pollInterval);
+      this.#pollInterval = null;
+    }
+  }
+}
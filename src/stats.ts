@@ -0,0 +1,215 @@
+import { ConnectionState, type WebSocketData } from "./models";
+
+export interface LatencyHistogram {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  /**
+   * Samples per bucket, each counting durations above the previous bound and up to `le` milliseconds
+   */
+  buckets: { le: number; count: number }[];
+  /**
+   * Percentiles estimated from the buckets: the upper bound of the bucket they fall in, capped at `max`
+   */
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface ConnectionStats {
+  state: ConnectionState;
+  /**
+   * Milliseconds since the connection was established, `0` when not connected
+   */
+  uptime: number;
+  /**
+   * Reconnect attempts scheduled since the instance was created
+   */
+  reconnects: number;
+  /**
+   * Times the connection reached `connected`
+   */
+  connections: number;
+  /**
+   * Milliseconds spent in each state, including the current one
+   */
+  timeInState: Record<ConnectionState, number>;
+  /**
+   * Time from the transport opening to the application-level handshake completing
+   */
+  handshake: LatencyHistogram;
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+  /**
+   * Latency of `call()`s that got a response
+   */
+  rpc: LatencyHistogram;
+  /**
+   * `call()`s that timed out, were aborted, lost the connection or failed to handle their response
+   */
+  rpcFailures: number;
+}
+
+const DEFAULT_BUCKETS = [
+  10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000,
+];
+
+class Histogram {
+  #counts: number[];
+  #count = 0;
+  #sum = 0;
+  #min = Number.POSITIVE_INFINITY;
+  #max = 0;
+
+  constructor(private readonly bounds: number[] = DEFAULT_BUCKETS) {
+    this.#counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  record(value: number) {
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    this.#counts[index === -1 ? this.bounds.length : index]++;
+    this.#count++;
+    this.#sum += value;
+    this.#min = Math.min(this.#min, value);
+    this.#max = Math.max(this.#max, value);
+  }
+
+  snapshot(): LatencyHistogram {
+    return {
+      count: this.#count,
+      sum: this.#sum,
+      min: this.#count > 0 ? this.#min : 0,
+      max: this.#max,
+      buckets: this.#counts.map((count, index) => ({
+        le: this.bounds[index] ?? Number.POSITIVE_INFINITY,
+        count,
+      })),
+      p50: this.percentile(0.5),
+      p95: this.percentile(0.95),
+      p99: this.percentile(0.99),
+    };
+  }
+
+  private percentile(p: number) {
+    if (this.#count === 0) {
+      return 0;
+    }
+
+    const rank = p * this.#count;
+    let seen = 0;
+    for (let index = 0; index < this.#counts.length; index++) {
+      seen += this.#counts[index];
+      if (seen >= rank) {
+        return Math.min(this.bounds[index] ?? this.#max, this.#max);
+      }
+    }
+
+    return this.#max;
+  }
+}
+
+const encoder = new TextEncoder();
+
+const byteLength = (data: unknown) => {
+  if (typeof data === "string") {
+    return encoder.encode(data).byteLength;
+  }
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    return data.size;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  return 0;
+};
+
+/**
+ * Accumulates the numbers behind `GreatWebSocket.getStats()`
+ */
+export class StatsCollector {
+  #state: ConnectionState = ConnectionState.Disconnected;
+  #stateSince = Date.now();
+  #connectedSince: number | null = null;
+  #limboSince: number | null = null;
+  #timeInState = Object.fromEntries(
+    Object.values(ConnectionState).map((state) => [state, 0]),
+  ) as Record<ConnectionState, number>;
+  #reconnects = 0;
+  #connections = 0;
+  #messagesIn = 0;
+  #messagesOut = 0;
+  #bytesIn = 0;
+  #bytesOut = 0;
+  #handshake = new Histogram();
+  #rpc = new Histogram();
+  #rpcFailures = 0;
+
+  recordStateChange(state: ConnectionState) {
+    if (state === this.#state) {
+      return;
+    }
+
+    const now = Date.now();
+    this.#timeInState[this.#state] += now - this.#stateSince;
+    this.#state = state;
+    this.#stateSince = now;
+
+    if (state === ConnectionState.Connected) {
+      this.#connections++;
+      this.#connectedSince = now;
+      if (this.#limboSince != null) {
+        this.#handshake.record(now - this.#limboSince);
+      }
+    } else {
+      this.#connectedSince = null;
+    }
+
+    this.#limboSince = state === ConnectionState.Limbo ? now : null;
+  }
+
+  recordReconnect() {
+    this.#reconnects++;
+  }
+
+  recordInbound(data: unknown) {
+    this.#messagesIn++;
+    this.#bytesIn += byteLength(data);
+  }
+
+  recordOutbound(data: WebSocketData) {
+    this.#messagesOut++;
+    this.#bytesOut += byteLength(data);
+  }
+
+  recordRpc(elapsed: number, failed: boolean) {
+    if (failed) {
+      this.#rpcFailures++;
+    } else {
+      this.#rpc.record(elapsed);
+    }
+  }
+
+  snapshot(): ConnectionStats {
+    const now = Date.now();
+    const timeInState = { ...this.#timeInState };
+    timeInState[this.#state] += now - this.#stateSince;
+
+    return {
+      state: this.#state,
+      uptime: this.#connectedSince != null ? now - this.#connectedSince : 0,
+      reconnects: this.#reconnects,
+      connections: this.#connections,
+      timeInState,
+      handshake: this.#handshake.snapshot(),
+      messagesIn: this.#messagesIn,
+      messagesOut: this.#messagesOut,
+      bytesIn: this.#bytesIn,
+      bytesOut: this.#bytesOut,
+      rpc: this.#rpc.snapshot(),
+      rpcFailures: this.#rpcFailures,
+    };
+  }
+}
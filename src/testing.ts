@@ -0,0 +1,506 @@
+import { TransitionReason, type WebSocketData } from "./models";
+import {
+  decodeFrame,
+  type RecordedEntry,
+  type SessionRecording,
+} from "./recorder";
+import type { WebSocketConstructor } from "./websocket-factory";
+
+/**
+ * Test harness: an in-memory `MockServer` and the `MockWebSocket` clients connecting to it.
+ *
+ * Nothing here uses timers: events are delivered asynchronously through promises, so the harness
+ * works the same with real and fake timers. Await `server.flush()` to let deliveries settle.
+ */
+
+type Listener<T> = ((value: T) => void) | null;
+
+export interface MockCloseOptions {
+  code?: number;
+  reason?: string;
+  wasClean?: boolean;
+}
+
+export interface MockServerOptions {
+  /**
+   * Open incoming connections automatically. When `false`, call `accept()` or `refuse()` on each one.
+   * Defaults to `true`
+   */
+  autoAccept?: boolean;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+/**
+ * `DOMException` only became a global in Node.js 17
+ */
+const invalidStateError = (message: string): Error => {
+  if (typeof DOMException !== "undefined") {
+    return new DOMException(message, "InvalidStateError");
+  }
+  const error = new Error(message);
+  error.name = "InvalidStateError";
+  return error;
+};
+
+/**
+ * Browser-compatible `WebSocket` connected to a `MockServer`. Get the constructor from `server.WebSocket`
+ */
+export class MockWebSocket {
+  static readonly CONNECTING = CONNECTING;
+  static readonly OPEN = OPEN;
+  static readonly CLOSING = CLOSING;
+  static readonly CLOSED = CLOSED;
+
+  readonly CONNECTING = CONNECTING;
+  readonly OPEN = OPEN;
+  readonly CLOSING = CLOSING;
+  readonly CLOSED = CLOSED;
+
+  readyState: number = CONNECTING;
+  binaryType: BinaryType = "blob";
+  bufferedAmount = 0;
+  extensions = "";
+  protocol = "";
+
+  onopen: Listener<Event> = null;
+  onmessage: Listener<MessageEvent> = null;
+  onerror: Listener<Event> = null;
+  onclose: Listener<CloseEvent> = null;
+
+  // Not an `EventTarget` subclass: some DOM implementations would call the `on*` handlers a second time
+  #listeners = new Map<
+    string,
+    Map<EventListenerOrEventListenerObject, boolean>
+  >();
+
+  /**
+   * Server side of this socket
+   */
+  readonly connection: MockConnection;
+
+  constructor(
+    server: MockServer,
+    readonly url: string,
+    protocols?: string | string[],
+  ) {
+    this.connection = server.connect(this, protocols);
+  }
+
+  send(data: WebSocketData) {
+    if (this.readyState === CONNECTING) {
+      throw invalidStateError("WebSocket is still connecting");
+    }
+    if (this.readyState !== OPEN) {
+      return;
+    }
+
+    this.connection.receive(data);
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === CLOSING || this.readyState === CLOSED) {
+      return;
+    }
+
+    this.readyState = CLOSING;
+    this.connection.closeFromClient({ code, reason, wasClean: true });
+  }
+
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ) {
+    if (listener == null) {
+      return;
+    }
+
+    const listeners = this.#listeners.get(type) ?? new Map();
+    this.#listeners.set(type, listeners);
+    if (!listeners.has(listener)) {
+      listeners.set(listener, typeof options === "object" && !!options.once);
+    }
+  }
+
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+  ) {
+    if (listener != null) {
+      this.#listeners.get(type)?.delete(listener);
+    }
+  }
+
+  dispatchEvent(event: Event) {
+    for (const [listener, once] of [
+      ...(this.#listeners.get(event.type) ?? []),
+    ]) {
+      if (once) {
+        this.removeEventListener(event.type, listener);
+      }
+      if (typeof listener === "function") {
+        listener.call(this, event);
+      } else {
+        listener.handleEvent(event);
+      }
+    }
+    return !event.defaultPrevented;
+  }
+
+  /**
+   * @internal Dispatch to the `on*` handler, then to the listeners, like the browser does
+   */
+  emit(event: Event) {
+    const handler = this[`on${event.type}` as "onopen"] as Listener<Event>;
+    handler?.call(this, event);
+    this.dispatchEvent(event);
+  }
+}
+
+/**
+ * The server side of one `MockWebSocket`
+ */
+export class MockConnection {
+  /**
+   * Frames the client sent, in order
+   */
+  readonly sent: WebSocketData[] = [];
+  #accepted = false;
+  #closeInfo: Required<MockCloseOptions> | null = null;
+
+  constructor(
+    private readonly server: MockServer,
+    readonly socket: MockWebSocket,
+    readonly protocols: string[],
+  ) {}
+
+  get url() {
+    return this.socket.url;
+  }
+
+  /**
+   * Whether the server accepted the connection and hasn't closed it. The client learns about both asynchronously
+   */
+  get open() {
+    return this.#accepted && this.#closeInfo == null;
+  }
+
+  /**
+   * How the connection closed, `null` while it's open or connecting
+   */
+  get closeInfo() {
+    return this.#closeInfo;
+  }
+
+  /**
+   * Complete the opening handshake, optionally agreeing on one of the requested subprotocols
+   */
+  accept(protocol = "") {
+    if (this.#accepted || this.#closeInfo != null) {
+      return;
+    }
+
+    this.#accepted = true;
+    this.server.deliver(() => {
+      if (this.socket.readyState === CONNECTING) {
+        this.socket.readyState = OPEN;
+        this.socket.protocol = protocol;
+        this.socket.emit(new Event("open"));
+      }
+    });
+  }
+
+  /**
+   * Fail the opening handshake, like an unreachable server or a rejected upgrade
+   */
+  refuse() {
+    if (this.#accepted) {
+      return;
+    }
+
+    this.terminate({ code: 1006, reason: "", wasClean: false }, true);
+  }
+
+  /**
+   * Send a message to the client
+   */
+  push(data: WebSocketData) {
+    if (!this.open) {
+      throw new Error("Connection is not open");
+    }
+
+    this.server.deliver(() => {
+      if (this.socket.readyState === OPEN) {
+        this.socket.emit(new MessageEvent("message", { data }));
+      }
+    });
+  }
+
+  /**
+   * Close the connection from the server with a close frame
+   */
+  close(code = 1000, reason = "") {
+    this.terminate({ code, reason, wasClean: true }, false);
+  }
+
+  /**
+   * Drop the connection without a close frame: an `error` and an unclean `close` with code 1006 by default
+   */
+  drop(code = 1006, reason = "") {
+    this.terminate({ code, reason, wasClean: false }, true);
+  }
+
+  /**
+   * @internal
+   */
+  receive(data: WebSocketData) {
+    this.sent.push(data);
+    this.server.deliver(() => this.server.onMessage?.(this, data));
+  }
+
+  /**
+   * @internal
+   */
+  closeFromClient(closeInfo: Required<MockCloseOptions>) {
+    this.terminate(closeInfo, false);
+  }
+
+  private terminate(closeInfo: Required<MockCloseOptions>, error: boolean) {
+    if (this.#closeInfo != null) {
+      return;
+    }
+
+    this.#closeInfo = closeInfo;
+    this.server.deliver(() => {
+      this.socket.readyState = CLOSED;
+      if (error) {
+        this.socket.emit(new Event("error"));
+      }
+      this.socket.emit(
+        Object.assign(new Event("close"), closeInfo) as CloseEvent,
+      );
+    });
+  }
+}
+
+/**
+ * In-memory WebSocket server. Pass `server.WebSocket` as the `transport.WebSocket` option,
+ * or `install()` it as the global `WebSocket`
+ */
+export class MockServer {
+  /**
+   * Every connection made so far, in order
+   */
+  readonly connections: MockConnection[] = [];
+  /**
+   * Called for every new connection before it is opened, e.g. to `refuse()` it
+   */
+  onConnection: ((connection: MockConnection) => void) | null = null;
+  /**
+   * Called for every frame a client sends, e.g. to `push()` a response
+   */
+  onMessage:
+    | ((connection: MockConnection, data: WebSocketData) => void)
+    | null = null;
+  readonly WebSocket: WebSocketConstructor & typeof MockWebSocket;
+
+  #deliveries: Promise<void> = Promise.resolve();
+  #errors: unknown[] = [];
+  #waiting: ((connection: MockConnection) => void)[] = [];
+
+  constructor(private readonly options: MockServerOptions = {}) {
+    const server = this;
+    this.WebSocket = class extends MockWebSocket {
+      constructor(url: string, protocols?: string | string[]) {
+        super(server, url, protocols);
+      }
+    } as WebSocketConstructor & typeof MockWebSocket;
+  }
+
+  /**
+   * The most recent connection that is still open or connecting
+   */
+  get connection(): MockConnection | null {
+    const last = this.connections[this.connections.length - 1];
+    return last != null && last.closeInfo == null ? last : null;
+  }
+
+  /**
+   * Frames sent by all clients, in order
+   */
+  get sent(): WebSocketData[] {
+    return this.connections.flatMap((connection) => connection.sent);
+  }
+
+  /**
+   * Resolves with the next connection made after this call
+   */
+  nextConnection(): Promise<MockConnection> {
+    return new Promise((resolve) => this.#waiting.push(resolve));
+  }
+
+  /**
+   * Wait until every scheduled event has been delivered, including events those deliveries caused.
+   * Rethrows the first error thrown while delivering, e.g. by a failing `expect()` in `onMessage`
+   */
+  async flush() {
+    let current: Promise<void>;
+    do {
+      current = this.#deliveries;
+      await current;
+    } while (current !== this.#deliveries);
+
+    const [error] = this.#errors.splice(0);
+    if (error !== undefined) {
+      throw error;
+    }
+  }
+
+  /**
+   * Replace `target.WebSocket` with this server's client
+   *
+   * @returns a function restoring the original
+   */
+  install(target: { WebSocket?: unknown } = globalThis) {
+    const original = target.WebSocket;
+    target.WebSocket = this.WebSocket;
+    return () => {
+      target.WebSocket = original;
+    };
+  }
+
+  /**
+   * @internal
+   */
+  connect(socket: MockWebSocket, protocols?: string | string[]) {
+    const connection = new MockConnection(
+      this,
+      socket,
+      protocols == null ? [] : ([] as string[]).concat(protocols),
+    );
+    this.connections.push(connection);
+
+    this.deliver(() => {
+      this.onConnection?.(connection);
+      const waiting = this.#waiting;
+      this.#waiting = [];
+      for (const resolve of waiting) {
+        resolve(connection);
+      }
+
+      if (this.options.autoAccept ?? true) {
+        connection.accept(connection.protocols[0]);
+      }
+    });
+    return connection;
+  }
+
+  /**
+   * @internal Run `fn` asynchronously, after everything scheduled before it
+   */
+  deliver(fn: () => void) {
+    this.#deliveries = this.#deliveries.then(fn).catch((error) => {
+      this.#errors.push(error);
+    });
+  }
+}
+
+/**
+ * Split a recording into the entries of each socket the client opened
+ */
+const splitConnections = (entries: RecordedEntry[]) => {
+  const connections: RecordedEntry[][] = [];
+  for (const entry of entries) {
+    if (entry.type === "socket") {
+      connections.push([]);
+    }
+    connections[connections.length - 1]?.push(entry);
+  }
+  return connections;
+};
+
+/**
+ * Plays the server side of a `SessionRecording` back through a `MockServer`: each socket the client
+ * opens gets the next recorded connection, with its refusal, inbound frames and close.
+ *
+ * Recorded outbound frames pace the replay, it waits until the client sent as many frames before going on.
+ * Timers are not replayed, advance them from the test
+ */
+export class SessionReplayer {
+  readonly server = new MockServer({ autoAccept: false });
+  #connections: RecordedEntry[][];
+  #players = new Map<MockConnection, () => void>();
+
+  constructor(recording: SessionRecording) {
+    this.#connections = splitConnections(recording.entries);
+    this.server.onConnection = (connection) =>
+      this.play(connection, this.#connections.shift() ?? []);
+    this.server.onMessage = (connection) => this.#players.get(connection)?.();
+  }
+
+  /**
+   * Pass as the `transport.WebSocket` option of the client under test
+   */
+  get WebSocket() {
+    return this.server.WebSocket;
+  }
+
+  /**
+   * Recorded connections the client hasn't opened yet
+   */
+  get remaining() {
+    return this.#connections.length;
+  }
+
+  private play(connection: MockConnection, entries: RecordedEntry[]) {
+    let index = 0;
+    let outbound = 0;
+    const advance = () => {
+      for (; index < entries.length; index++) {
+        const entry = entries[index];
+        switch (entry.type) {
+          case "state":
+            if (entry.reason === TransitionReason.Opened) {
+              connection.accept(connection.protocols[0]);
+            }
+            break;
+          case "outbound":
+            if (connection.sent.length <= outbound) {
+              return;
+            }
+            outbound++;
+            break;
+          case "inbound": {
+            const data = decodeFrame(entry.frame);
+            if (data != null && connection.open) {
+              connection.push(data);
+            }
+            break;
+          }
+          case "error":
+            // The client may have moved on before the close arrived, then only the error was recorded
+            if (
+              !entries.slice(index + 1).some((next) => next.type === "closed")
+            ) {
+              connection.drop();
+            }
+            break;
+          case "closed":
+            if (entry.wasClean) {
+              connection.close(entry.code, entry.reason);
+            } else {
+              connection.drop(entry.code, entry.reason);
+            }
+            break;
+        }
+      }
+    };
+
+    this.#players.set(connection, advance);
+    advance();
+  }
+}
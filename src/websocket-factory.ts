@@ -1,29 +1,69 @@
+import { defaultLogger, type Logger } from "./logger";
 import type { WebSocketIsh } from "./models";
+import type { CloseInfo } from "./reconnect-policy";
 
 export interface Operator {
   handleWebSocketOpen(): void;
-  handleWebSocketClosed(ws: WebSocket): void;
-  handleWebSocketError(ws: WebSocket): void;
+  handleWebSocketClosed(ws: WebSocket, closeInfo?: CloseInfo): void;
+  handleWebSocketError(ws: WebSocket, error?: unknown): void;
   handleWebSocketHeartbeatTimeout(): void;
 }
 
+/**
+ * Anything constructed like the browser `WebSocket`, e.g. `WebSocket` from the `ws` package
+ */
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[],
+  // biome-ignore lint/suspicious/noExplicitAny: implementation-specific options
+  options?: any,
+) => unknown;
+
+export interface TransportOptions {
+  /**
+   * Defaults to the global `WebSocket`
+   */
+  WebSocket?: WebSocketConstructor;
+  protocols?: string | string[];
+  binaryType?: BinaryType;
+  /**
+   * Passed as the third constructor argument, e.g. `headers` or `agent` for the `ws` package
+   */
+  options?: unknown;
+}
+
 export const createWebSocket = (
   wsUrl: string,
   operator: Operator,
   onMessageFn: (ws: WebSocketIsh, ev: MessageEvent) => void,
+  logger: Logger = defaultLogger,
+  transport: TransportOptions = {},
 ): WebSocketIsh => {
-  const ws = new WebSocket(wsUrl);
+  const ws = construct(wsUrl, transport);
+  if (transport.binaryType != null) {
+    ws.binaryType = transport.binaryType;
+  }
+
   ws.onerror = (error) => {
-    console.error("WS error: ", error);
-    operator.handleWebSocketError(ws);
+    logger.warn("WebSocket error", { url: wsUrl });
+    operator.handleWebSocketError(ws, error);
   };
 
   ws.onopen = async () => {
-    console.log("Websocket connected");
+    logger.debug("WebSocket opened", { url: wsUrl });
 
     ws.onclose = (ev) => {
-      console.log("WS closed: ", ev.reason, ev);
-      operator.handleWebSocketClosed(ws);
+      logger.info("WebSocket closed", {
+        url: wsUrl,
+        code: ev.code,
+        reason: ev.reason,
+        wasClean: ev.wasClean,
+      });
+      operator.handleWebSocketClosed(ws, {
+        code: ev.code,
+        reason: ev.reason,
+        wasClean: ev.wasClean,
+      });
     };
 
     ws.onmessage = (ev) => {
@@ -35,3 +75,20 @@ export const createWebSocket = (
 
   return ws;
 };
+
+const construct = (wsUrl: string, transport: TransportOptions): WebSocket => {
+  const WebSocketImpl = transport.WebSocket ?? WebSocket;
+  if (transport.options !== undefined) {
+    return new WebSocketImpl(
+      wsUrl,
+      transport.protocols,
+      transport.options,
+    ) as WebSocket;
+  }
+
+  return (
+    transport.protocols !== undefined
+      ? new WebSocketImpl(wsUrl, transport.protocols)
+      : new WebSocketImpl(wsUrl)
+  ) as WebSocket;
+};
@@ -1,35 +1,258 @@
-import type { GreatWebSocketEventMap } from "./events";
-import type { PendingCommand } from "./internal";
+import { type Codec, rawCodec } from "./codec";
+import {
+  type Endpoint,
+  type EndpointHealth,
+  EndpointPool,
+  type FailoverOptions,
+} from "./endpoint-pool";
+import type { EnvironmentMonitor } from "./environment";
+import {
+  ConnectionLostError,
+  MethodNotFoundError,
+  RpcAbortedError,
+  RpcTimeoutError,
+} from "./errors";
+import {
+  type GreatWebSocketEventListener,
+  type GreatWebSocketEventMap,
+  MessageDecodeErrorEvent,
+  MessageReceivedEvent,
+  QualityChangeEvent,
+  RpcCompleteEvent,
+  StatsEvent,
+  SubscriptionErrorEvent,
+} from "./events";
+import type { PendingCommand, SubscriptionEntry } from "./internal";
 import { AlwaysConnected } from "./keep-online";
-import { ConnectionState, type heartbeatFn } from "./models";
-import type { RemoteCommand } from "./rpc";
-import { createWebSocket, type Operator } from "./websocket-factory";
+import { defaultLogger, type Logger } from "./logger";
+import {
+  MessageQueue,
+  type MessageStreamOptions,
+  toReadableStream,
+} from "./message-stream";
+import {
+  ConnectionState,
+  type HandshakeResult,
+  type heartbeatFn,
+  TransitionReason,
+  type WebSocketData,
+} from "./models";
+import { Outbox, type OutboxOptions, type SendOptions } from "./outbox";
+import type {
+  CloseClassifier,
+  CloseInfo,
+  ReconnectPolicy,
+} from "./reconnect-policy";
+import {
+  type RecorderOptions,
+  SessionRecorder,
+  type SessionRecording,
+} from "./recorder";
+import type {
+  CallOptions,
+  CommandSource,
+  ConnectionLostPolicy,
+  IncomingRequest,
+  RemoteCommand,
+  RequestHandler,
+  RequestProtocol,
+  StreamingCall,
+  StreamingCallOptions,
+  StreamingCommand,
+  Subscription,
+} from "./rpc";
+import {
+  type ConnectionQuality,
+  type PingOptions,
+  RttEstimator,
+  type RttStats,
+} from "./rtt";
+import { type BackpressureOptions, SendQueue } from "./send-queue";
+import { type ConnectionStats, StatsCollector } from "./stats";
+import {
+  createWebSocket,
+  type Operator,
+  type TransportOptions,
+} from "./websocket-factory";
 
-export class GreatWebSocket implements Operator {
+export interface GreatWebSocketOptions<In = unknown, Out = WebSocketData> {
+  heartbeatInterval?: number;
+  reconnectDelay?: number;
+  connectionTimeout?: number;
+  reconnectPolicy?: ReconnectPolicy;
+  /**
+   * Decides whether a close is worth reconnecting after. Every close is retried when omitted
+   */
+  classifyClose?: CloseClassifier;
+  /**
+   * Default timeout for `call()` in milliseconds. No timeout when omitted
+   */
+  rpcTimeout?: number;
+  /**
+   * Default fate of in-flight commands when the connection drops. Defaults to `reject`
+   */
+  onConnectionLost?: ConnectionLostPolicy;
+  /**
+   * Queue messages sent while not connected and flush them once connected.
+   * Without an outbox such messages are dropped
+   */
+  outbox?: OutboxOptions;
+  /**
+   * Reconnect if nothing arrives from the server for this long while connected.
+   * Disabled when omitted
+   */
+  livenessTimeout?: number;
+  /**
+   * Only messages matching this predicate reset the liveness deadline. Any message does when omitted
+   */
+  isHeartbeat?: (ev: MessageEvent) => boolean;
+  /**
+   * Receives state transitions, reconnect scheduling and RPC completions.
+   * Defaults to warnings and errors on the console
+   */
+  logger?: Logger;
+  /**
+   * Encodes outgoing and decodes incoming messages. Frames are passed through unchanged when omitted
+   */
+  codec?: Codec<In, Out>;
+  /**
+   * Pass every decoded message through `tryHandleAsControlMessage()` first.
+   * Only messages that don't match a pending command reach `onMessageFn`
+   */
+  routeResponses?: boolean;
+  /**
+   * Pause reconnects while offline and reconnect immediately when the network or the page comes back,
+   * e.g. `browserEnvironment()`. Disabled when omitted
+   */
+  environment?: EnvironmentMonitor;
+  /**
+   * How to pick among several endpoints passed as `url`
+   */
+  failover?: FailoverOptions;
+  /**
+   * WebSocket implementation and its constructor arguments. A codec's `binaryType` takes precedence once the socket opens
+   */
+  transport?: TransportOptions;
+  /**
+   * Dispatch a `stats` event with `getStats()` this often while active. Disabled when omitted
+   */
+  statsInterval?: number;
+  /**
+   * Measure round-trip time with application-level pings and classify the connection quality.
+   * Disabled when omitted
+   */
+  ping?: PingOptions<In, Out>;
+  /**
+   * Keep a ring buffer of state transitions, frames, RPC calls and timer events, see `getRecording()`.
+   * Disabled when omitted
+   */
+  recorder?: RecorderOptions;
+  /**
+   * Recognize requests from the server and format the responses, e.g. `jsonRpcRequests()`.
+   * Required by `handle()`
+   */
+  requestProtocol?: RequestProtocol<In, Out>;
+  /**
+   * High-water mark for the socket's `bufferedAmount` used by `sendAsync()` and the `drain` event
+   */
+  backpressure?: BackpressureOptions;
+}
+
+const isStreaming = <Out>(
+  command: RemoteCommand<Out>,
+): command is StreamingCommand<Out> =>
+  typeof (command as StreamingCommand<Out>).isFinal === "function";
+
+export type MessageFn<In> = (
+  ws: WebSocket,
+  ev: MessageEvent,
+  message: In,
+) => void;
+
+export class GreatWebSocket<In = unknown, Out = WebSocketData>
+  implements Operator
+{
   #ws: AlwaysConnected | null = null;
   #pendingCommands: PendingCommand[] = [];
+  #outbox: Outbox | null = null;
+  #sendQueue: SendQueue;
+  #subscriptions = new Map<string, SubscriptionEntry<Out>>();
+  /**
+   * Subscriptions the handshake of the current connection already tried to replay
+   */
+  #replayed = new Set<SubscriptionEntry<Out>>();
+  #replaying = false;
+  #endpoints: EndpointPool<Endpoint>;
+  #endpointPending = false;
+  #failbackTimeout: ReturnType<typeof setTimeout> | null = null;
+  #stats = new StatsCollector();
+  #statsInterval: ReturnType<typeof setInterval> | null = null;
+  #rtt: RttEstimator;
+  #recorder: SessionRecorder | null = null;
+  #consumers = new Set<MessageQueue<In>>();
+  #handlers = new Map<string, RequestHandler>();
+  #quality: ConnectionQuality = "unknown";
+  #pings = new Map<number, number>();
+  #nextPingId = 0;
+  #pingInterval: ReturnType<typeof setInterval> | null = null;
 
+  /**
+   * @param url - endpoint to connect to, or several endpoints from the most to the least preferred.
+   * An endpoint is a URL or a function resolving it before every connection attempt
+   */
   constructor(
-    url: string,
-    private readonly onConnectedFn: () => Promise<boolean>,
-    private readonly onMessageFn: (ws: WebSocket, ev: MessageEvent) => void,
+    url: Endpoint | readonly Endpoint[],
+    private readonly onConnectedFn: (
+      ws: WebSocket,
+      signal: AbortSignal,
+    ) => Promise<HandshakeResult>,
+    private readonly onMessageFn: MessageFn<In>,
     private readonly sendHeartbeat: heartbeatFn,
+    private readonly options: GreatWebSocketOptions<In, Out> = {},
   ) {
+    if (options.outbox != null) {
+      this.#outbox = new Outbox(options.outbox);
+    }
+
+    this.#sendQueue = new SendQueue(
+      options.backpressure ?? {},
+      () => this.websocket?.bufferedAmount ?? 0,
+      (data) => this.transmit(data),
+      () => this.#ws?.dispatchEvent(new Event("drain")),
+    );
+    this.#rtt = new RttEstimator(options.ping?.lossWindow);
+    this.#endpoints = new EndpointPool(
+      typeof url === "string" || typeof url === "function" ? [url] : url,
+      options.failover,
+    );
+
     this.#ws = new AlwaysConnected(
-      () =>
-        createWebSocket(
-          url,
-          this,
-          this.onMessageFn as (ws: unknown, ev: MessageEvent) => void,
-        ),
-      this.onConnectedFn,
+      () => this.createSocket(this.nextEndpoint()),
+      (ws, signal) => this.handshake(ws as WebSocket, signal),
       this.sendHeartbeat,
       {
-        heartbeatInterval: 15000,
-        reconnectDelay: 2000,
-        connectionTimeout: 15000,
+        heartbeatInterval: options.heartbeatInterval ?? 15000,
+        reconnectDelay: options.reconnectDelay ?? 2000,
+        connectionTimeout: options.connectionTimeout ?? 15000,
+        reconnectPolicy: options.reconnectPolicy,
+        classifyClose: options.classifyClose,
+        livenessTimeout: options.livenessTimeout,
+        logger: options.logger,
+        environment: options.environment,
       },
     );
+
+    this.#ws.addEventListener("statechange", (ev) =>
+      this.handleStateChange(ev.state),
+    );
+    this.#ws.addEventListener("reconnectscheduled", () =>
+      this.#stats.recordReconnect(),
+    );
+
+    if (options.recorder != null) {
+      this.#recorder = new SessionRecorder(options.recorder);
+      this.#recorder.observe(this.#ws);
+    }
   }
 
   /**
@@ -46,6 +269,27 @@ export class GreatWebSocket implements Operator {
     return this.#ws?.state ?? ConnectionState.Disconnected;
   }
 
+  /**
+   * Close details of the last socket that closed, kept in the `error` state
+   */
+  get lastClose(): CloseInfo | null {
+    return this.#ws?.lastClose ?? null;
+  }
+
+  /**
+   * URL of the current or, while reconnecting, the last socket
+   */
+  get endpoint(): string | null {
+    return this.#ws?.endpoint ?? null;
+  }
+
+  /**
+   * Health of every endpoint, from the most to the least preferred
+   */
+  get endpoints(): EndpointHealth<Endpoint>[] {
+    return this.#endpoints.health;
+  }
+
   /**
    * The underlying WebSocket instance
    */
@@ -58,13 +302,37 @@ export class GreatWebSocket implements Operator {
    */
   activate() {
     this.#ws?.activate();
+
+    const { statsInterval } = this.options;
+    if (statsInterval != null && this.#statsInterval == null) {
+      this.#statsInterval = setInterval(() => {
+        this.#ws?.dispatchEvent(new StatsEvent(this.getStats()));
+      }, statsInterval);
+    }
   }
 
   /**
    * Shutdown - stop and disconnect the WebSocket
    */
   shutdown() {
+    // before the state change would move waiting messages into the outbox that is cleared below
+    this.#sendQueue.release(() => false);
     this.#ws?.shutdown();
+    this.stopPinging();
+    if (this.#statsInterval != null) {
+      clearInterval(this.#statsInterval);
+      this.#statsInterval = null;
+    }
+    this.#endpointPending = false;
+    this.stopFailback();
+    this.#outbox?.clear();
+    for (const consumer of this.#consumers) {
+      consumer.close();
+    }
+    this.rejectPendingCommands(() => true);
+    for (const entry of this.#subscriptions.values()) {
+      entry.state = "pending";
+    }
   }
 
   /**
@@ -74,48 +342,233 @@ export class GreatWebSocket implements Operator {
     this.#ws?.handleWebSocketHeartbeatTimeout();
   }
 
+  /**
+   * Quality of the connection measured by pings, `unknown` without the `ping` option
+   */
+  get quality(): ConnectionQuality {
+    return this.#quality;
+  }
+
+  /**
+   * Round-trip time, jitter and packet loss of the current connection
+   */
+  get rtt(): RttStats {
+    return this.#rtt.stats;
+  }
+
+  /**
+   * Uptime, reconnects, time per state, traffic and latency since the instance was created
+   */
+  getStats(): ConnectionStats {
+    return this.#stats.snapshot();
+  }
+
+  /**
+   * What the `recorder` captured so far, ready for `JSON.stringify()`. `null` without the `recorder` option
+   */
+  getRecording(): SessionRecording | null {
+    return this.#recorder?.snapshot() ?? null;
+  }
+
   //#region Events
 
-  addEventListener<K extends keyof GreatWebSocketEventMap>(
+  addEventListener<K extends keyof GreatWebSocketEventMap<In>>(
     type: K,
-    listener: EventListenerOrEventListenerObject,
+    listener: GreatWebSocketEventListener<GreatWebSocketEventMap<In>[K]>,
     options?: boolean | AddEventListenerOptions,
   ): void {
-    this.#ws?.addEventListener(type, listener, options);
+    this.#ws?.addEventListener(
+      type,
+      listener as GreatWebSocketEventListener<GreatWebSocketEventMap[K]>,
+      options,
+    );
   }
 
-  removeEventListener<K extends keyof GreatWebSocketEventMap>(
+  removeEventListener<K extends keyof GreatWebSocketEventMap<In>>(
     type: K,
-    listener: EventListenerOrEventListenerObject,
+    listener: GreatWebSocketEventListener<GreatWebSocketEventMap<In>[K]>,
     options?: boolean | EventListenerOptions,
   ): void {
-    this.#ws?.removeEventListener(type, listener, options);
+    this.#ws?.removeEventListener(
+      type,
+      listener as GreatWebSocketEventListener<GreatWebSocketEventMap[K]>,
+      options,
+    );
   }
 
   //#endregion
 
-  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): boolean {
-    if (!this.isConnected()) {
-      return false;
+  /**
+   * Number of messages waiting in the outbox
+   */
+  get queuedMessages(): number {
+    return this.#outbox?.size ?? 0;
+  }
+
+  /**
+   * Number of messages waiting in `sendAsync()` for the socket's send buffer to drain
+   */
+  get sendQueueLength(): number {
+    return this.#sendQueue.size;
+  }
+
+  /**
+   * Bytes queued by the socket but not yet transmitted
+   */
+  get bufferedAmount(): number {
+    return this.websocket?.bufferedAmount ?? 0;
+  }
+
+  /**
+   * Encode and send a message, or queue it into the outbox when not connected.
+   *
+   * @returns `true` if the message was sent or queued, `false` if it was dropped
+   */
+  send(message: Out, options: SendOptions = {}): boolean {
+    const data = this.codec.encode(message);
+    if (this.canTransmit(options)) {
+      if (this.#sendQueue.size > 0) {
+        // keep the order of messages still waiting in sendAsync()
+        void this.#sendQueue.send(data);
+      } else {
+        this.transmit(data);
+      }
+      return true;
     }
 
-    this.websocket?.send(data);
-    return true;
+    return this.#outbox?.enqueue(data, options) ?? false;
   }
 
+  /**
+   * Like `send()`, but waits while the socket's `bufferedAmount` is at or above the `backpressure`
+   * high-water mark. Messages are sent in order, including those passed to `send()` meanwhile.
+   * Waiting messages are moved to the outbox when the connection is lost
+   *
+   * @returns resolves with `true` once the message was handed to the socket or queued, `false` if it was dropped
+   */
+  async sendAsync(message: Out, options: SendOptions = {}): Promise<boolean> {
+    if (!this.canTransmit(options)) {
+      return this.send(message, options);
+    }
+
+    return this.#sendQueue.send(this.codec.encode(message));
+  }
+
+  //#region Message streams
+
+  /**
+   * Iterate over incoming messages with `for await`. Every call creates an independent consumer
+   * receiving the messages that reach `onMessageFn` from now on. The iteration ends on `shutdown()`,
+   * when the signal is aborted or when the loop exits
+   */
+  messages(options: MessageStreamOptions = {}): AsyncIterableIterator<In> {
+    const queue = new MessageQueue<In>(options, (closed) =>
+      this.#consumers.delete(closed),
+    );
+    if (!queue.closed) {
+      this.#consumers.add(queue);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Incoming messages as a `ReadableStream`, buffered like `messages()` while the reader is slow
+   */
+  stream(options: MessageStreamOptions = {}): ReadableStream<In> {
+    return toReadableStream(this.messages(options));
+  }
+
+  //#endregion
+
   //#region RPC
 
-  call(command: RemoteCommand): Promise<unknown> {
+  /**
+   * Execute a remote command and wait for its response.
+   *
+   * The returned promise rejects with `RpcTimeoutError` when the timeout elapses
+   * and with `RpcAbortedError` when the signal is aborted. Either way the command
+   * is forgotten and a late response is no longer matched.
+   * While not connected, commands are rejected with `ConnectionLostError` right away,
+   * or wait for the connection with the `reexecute` policy unless the state is `error`.
+   */
+  call(
+    command: RemoteCommand<Out>,
+    options: CallOptions = {},
+  ): Promise<unknown> {
+    const { signal } = options;
+    const timeout = options.timeout ?? this.options.rpcTimeout;
+
+    if (signal?.aborted) {
+      return Promise.reject(new RpcAbortedError(command, signal.reason));
+    }
+
     const cmd = {
       command,
       executedAt: Date.now(),
+      onConnectionLost:
+        options.onConnectionLost ?? this.options.onConnectionLost ?? "reject",
+      onProgress: options.onProgress,
     } as PendingCommand;
 
+    // only subscription replay may run commands during limbo, others would be dropped by send()
+    const connected =
+      this.isConnected() ||
+      (this.#replaying && this.state === ConnectionState.Limbo);
+    if (
+      !connected &&
+      (cmd.onConnectionLost === "reject" ||
+        this.state === ConnectionState.Error)
+    ) {
+      return Promise.reject(new ConnectionLostError(command));
+    }
+
     return new Promise((resolve, reject) => {
       this.#pendingCommands.push(cmd);
 
       cmd.promise = { resolve, reject };
-      cmd.rpcId = command.execute(this);
+
+      const timer =
+        timeout != null
+          ? setTimeout(() => {
+              const error = new RpcTimeoutError(command, timeout);
+              this.removePendingCommand(cmd);
+              this.cancelCommand(cmd);
+              this.reportCompletion(cmd, error);
+              reject(error);
+            }, timeout)
+          : null;
+
+      const onAbort = () => {
+        const error = new RpcAbortedError(command, signal?.reason);
+        this.removePendingCommand(cmd);
+        this.cancelCommand(cmd);
+        this.reportCompletion(cmd, error);
+        reject(error);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      cmd.dispose = () => {
+        if (timer != null) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      if (!connected) {
+        cmd.awaitingReconnect = true;
+        return;
+      }
+
+      if (!this.executeCommand(cmd)) {
+        return;
+      }
+
+      this.#recorder?.record({
+        type: "call",
+        command: command.constructor.name,
+        rpcId: cmd.rpcId,
+      });
     });
   }
 
@@ -124,28 +577,34 @@ export class GreatWebSocket implements Operator {
    *
    * Call this from your `onMessageFn` callback after parsing the message.
    * If the message matches a pending command, the command's promise is resolved
-   * and this returns `true`. Otherwise, returns `false` and you should handle
+   * (or rejected, if `handleResponse` throws) and this returns `true`. Otherwise, returns `false` and you should handle
    * the message yourself (e.g., as an event or notification).
    *
    * @param message - The parsed message to dispatch
    * @returns `true` if the message was handled as an RPC response, `false` otherwise
    */
   tryHandleAsControlMessage(message: unknown): boolean {
-    const matchedCommand = this.#pendingCommands.find((cmd) =>
-      cmd.command.responseMatches(message),
+    const matchedCommand = this.#pendingCommands.find(
+      (cmd) => !cmd.awaitingReconnect && cmd.command.responseMatches(message),
     );
 
     if (matchedCommand != null) {
-      const result = matchedCommand.command.handleResponse(message);
-      const elapsed = Date.now() - matchedCommand.executedAt;
-      console.log(
-        `Command ${matchedCommand.command.constructor.name} completed in ${elapsed} ms`,
-      );
+      const { command } = matchedCommand;
+      if (isStreaming(command) && !command.isFinal(message)) {
+        this.handleProgress(matchedCommand, command, message);
+        return true;
+      }
 
-      matchedCommand.promise.resolve(result);
-      this.#pendingCommands = this.#pendingCommands.filter(
-        (cmd) => cmd !== matchedCommand,
-      );
+      this.removePendingCommand(matchedCommand);
+
+      try {
+        const result = matchedCommand.command.handleResponse(message);
+        this.reportCompletion(matchedCommand);
+        matchedCommand.promise.resolve(result);
+      } catch (error) {
+        this.reportCompletion(matchedCommand, error);
+        matchedCommand.promise.reject(error);
+      }
 
       return true;
     }
@@ -153,24 +612,680 @@ export class GreatWebSocket implements Operator {
     return false;
   }
 
+  /**
+   * Execute a `StreamingCommand`, iterate over its progress and await its final `result`.
+   * Call options apply to the whole exchange, and `onProgress` receives the progress values too
+   */
+  callStream<P = unknown, R = unknown>(
+    command: StreamingCommand<Out>,
+    options: StreamingCallOptions = {},
+  ): StreamingCall<P, R> {
+    const { signal, bufferSize, overflow, onProgress } = options;
+    const controller = new AbortController();
+    const cancel = (reason?: unknown) => controller.abort(reason);
+    const onAbort = () => cancel(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    let settled = false;
+    const progress = new MessageQueue<P>({ bufferSize, overflow }, () => {
+      if (!settled) {
+        cancel();
+      }
+    });
+
+    const result = this.call(command, {
+      ...options,
+      signal: controller.signal,
+      onProgress: (value) => {
+        onProgress?.(value);
+        progress.push(value as P);
+      },
+    }) as Promise<R>;
+
+    const settle = () => {
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+    };
+    result.then(
+      () => {
+        settle();
+        progress.close();
+      },
+      (error) => {
+        settle();
+        progress.fail(error);
+      },
+    );
+
+    return {
+      result,
+      cancel,
+      [Symbol.asyncIterator]: () => progress,
+    };
+  }
+
+  //#endregion
+
+  //#region Server requests
+
+  /**
+   * Answer requests the server sends for `method`. The handler's result, or the error it throws,
+   * is sent back in the format of the `requestProtocol`. Requests for methods without a handler
+   * are answered with a `MethodNotFoundError`.
+   *
+   * @returns a function removing the handler
+   */
+  handle<P = unknown>(method: string, handler: RequestHandler<P>): () => void {
+    if (this.options.requestProtocol == null) {
+      throw new Error("Handling requests requires the requestProtocol option");
+    }
+    if (this.#handlers.has(method)) {
+      throw new Error(`A handler for ${method} is already registered`);
+    }
+
+    this.#handlers.set(method, handler as RequestHandler);
+    return () => {
+      if (this.#handlers.get(method) === handler) {
+        this.#handlers.delete(method);
+      }
+    };
+  }
+
+  //#endregion
+
+  //#region Subscriptions
+
+  /**
+   * Register a subscription that is re-established after every reconnect.
+   *
+   * The subscribe command is executed right away when connected, and again during
+   * `limbo` after each successful `onConnectedFn` handshake, before the state moves
+   * to `connected`. Failures are reported as `subscriptionerror` events.
+   * Pass factories instead of commands when a command can't be executed twice.
+   */
+  subscribe(
+    key: string,
+    subscribeCmd: CommandSource<Out>,
+    unsubscribeCmd: CommandSource<Out>,
+  ): Subscription {
+    if (this.#subscriptions.has(key)) {
+      throw new Error(`Already subscribed: ${key}`);
+    }
+
+    const toFactory = (source: CommandSource<Out>) =>
+      typeof source === "function" ? source : () => source;
+    const entry: SubscriptionEntry<Out> = {
+      key,
+      subscribe: toFactory(subscribeCmd),
+      unsubscribe: toFactory(unsubscribeCmd),
+      state: "pending",
+    };
+    this.#subscriptions.set(key, entry);
+
+    if (this.isConnected()) {
+      this.runSubscription(entry);
+    }
+
+    return {
+      key,
+      unsubscribe: () => this.unsubscribe(key),
+    };
+  }
+
+  /**
+   * Keys of all registered subscriptions
+   */
+  get subscriptions(): string[] {
+    return [...this.#subscriptions.keys()];
+  }
+
+  private async unsubscribe(key: string): Promise<void> {
+    const entry = this.#subscriptions.get(key);
+    if (entry == null) {
+      return;
+    }
+
+    this.#subscriptions.delete(key);
+    if (entry.state !== "pending" && this.isConnected()) {
+      await this.call(entry.unsubscribe());
+    }
+  }
+
+  private async handshake(
+    ws: WebSocket,
+    signal: AbortSignal,
+  ): Promise<HandshakeResult> {
+    const result = await this.onConnectedFn(ws, signal);
+    if (
+      result === false ||
+      (typeof result === "object" && result.outcome !== "success")
+    ) {
+      return result;
+    }
+
+    const pending = [...this.#subscriptions.values()].filter(
+      (entry) => entry.state === "pending",
+    );
+    this.#replayed = new Set(pending);
+    await Promise.all(pending.map((entry) => this.runSubscription(entry)));
+
+    return true;
+  }
+
+  private async runSubscription(entry: SubscriptionEntry<Out>) {
+    entry.state = "subscribing";
+
+    let result: Promise<unknown>;
+    this.#replaying = this.state === ConnectionState.Limbo;
+    try {
+      result = this.call(entry.subscribe(), {
+        onConnectionLost: "reject",
+        timeout: this.#replaying ? this.replayTimeout : undefined,
+      });
+    } catch (error) {
+      // a throwing factory fails like its command would
+      result = Promise.reject(error);
+    } finally {
+      this.#replaying = false;
+    }
+
+    try {
+      await result;
+      if (this.#subscriptions.get(entry.key) === entry) {
+        entry.state = "active";
+      }
+    } catch (error) {
+      entry.state = "pending";
+      if (error instanceof ConnectionLostError) {
+        return;
+      }
+
+      this.logger.warn("Subscription failed", { key: entry.key, error });
+      this.#ws?.dispatchEvent(new SubscriptionErrorEvent(entry.key, error));
+    }
+  }
+
   //#endregion
 
   //#region Internals
 
+  private get logger(): Logger {
+    return this.options.logger ?? defaultLogger;
+  }
+
+  /**
+   * Replayed subscriptions give up within half the handshake's time, so one the server never
+   * answers is reported instead of timing the handshake out
+   */
+  private get replayTimeout(): number {
+    return Math.min(
+      this.options.rpcTimeout ?? Number.POSITIVE_INFINITY,
+      (this.options.connectionTimeout ?? 15000) / 2,
+    );
+  }
+
+  private get codec(): Codec<In, Out> {
+    return this.options.codec ?? (rawCodec as Codec<In, Out>);
+  }
+
+  private handleMessage(ws: WebSocket, ev: MessageEvent) {
+    this.#stats.recordInbound(ev.data);
+    this.#recorder?.recordFrame("inbound", ev.data);
+    if (this.options.isHeartbeat?.(ev) ?? true) {
+      this.#ws?.handleWebSocketMessage();
+    }
+
+    let message: In;
+    try {
+      message = this.codec.decode(ev.data);
+    } catch (error) {
+      this.logger.warn("Failed to decode message", { error });
+      this.#ws?.dispatchEvent(new MessageDecodeErrorEvent(error, ev.data));
+      return;
+    }
+
+    const pong = this.options.ping?.matchPong(message) ?? null;
+    if (pong != null) {
+      this.handlePong(pong);
+      return;
+    }
+
+    if (
+      this.options.routeResponses &&
+      this.tryHandleAsControlMessage(message)
+    ) {
+      return;
+    }
+
+    if (this.tryHandleAsRequest(message)) {
+      return;
+    }
+
+    this.#ws?.dispatchEvent(new MessageReceivedEvent(message, ev.data));
+    for (const consumer of this.#consumers) {
+      consumer.push(message);
+    }
+    this.onMessageFn(ws, ev, message);
+  }
+
+  private handleStateChange(state: ConnectionState) {
+    this.#stats.recordStateChange(state);
+    if (state !== ConnectionState.Connected) {
+      this.stopFailback();
+      this.stopPinging();
+    }
+
+    if (state === ConnectionState.Limbo) {
+      this.flushOutbox(true);
+    } else if (state === ConnectionState.Connected) {
+      this.#endpoints.reportSuccess();
+      this.#endpointPending = false;
+      this.scheduleFailback();
+      this.startPinging();
+      this.flushOutbox(false);
+      for (const entry of this.#subscriptions.values()) {
+        if (entry.state === "pending" && !this.#replayed.has(entry)) {
+          this.runSubscription(entry);
+        }
+      }
+      this.#replayed.clear();
+      for (const cmd of this.#pendingCommands) {
+        if (cmd.awaitingReconnect) {
+          cmd.awaitingReconnect = false;
+          cmd.executedAt = Date.now();
+          this.executeCommand(cmd);
+        }
+      }
+    } else if (
+      state === ConnectionState.Reconnecting ||
+      state === ConnectionState.Disconnected ||
+      state === ConnectionState.Error
+    ) {
+      if (state !== ConnectionState.Disconnected) {
+        this.reportEndpointFailure();
+      }
+      this.#endpointPending = false;
+      this.#sendQueue.release((data) => this.requeue(data));
+      // the connection won't come back from an error, so nothing would re-execute
+      this.rejectPendingCommands(
+        (cmd) =>
+          state === ConnectionState.Error || cmd.onConnectionLost === "reject",
+      );
+      this.#replayed.clear();
+      for (const entry of this.#subscriptions.values()) {
+        entry.state = "pending";
+      }
+      for (const cmd of this.#pendingCommands) {
+        cmd.awaitingReconnect = true;
+      }
+    }
+  }
+
+  /**
+   * Dispatch a server-initiated request to its handler and send the response once it settles
+   *
+   * @returns `true` if the message was a request
+   */
+  private tryHandleAsRequest(message: In): boolean {
+    const protocol = this.options.requestProtocol;
+    const request = protocol?.parse(message) ?? null;
+    if (protocol == null || request == null) {
+      return false;
+    }
+
+    const socket = this.websocket;
+    const handler = this.#handlers.get(request.method);
+    const result = new Promise((resolve) => {
+      if (handler == null) {
+        throw new MethodNotFoundError(request.method);
+      }
+
+      resolve(handler(request.params, request));
+    });
+
+    const respondWithError = (error: unknown) =>
+      this.respond(socket, request, () => protocol.error(request, error));
+
+    result
+      .then(
+        (value) => {
+          try {
+            this.respond(socket, request, () =>
+              protocol.result(request, value),
+            );
+          } catch (error) {
+            // e.g. a result the codec can't encode, the server still gets an answer
+            this.logger.warn("Failed to send the response", {
+              method: request.method,
+              error,
+            });
+            respondWithError(error);
+          }
+        },
+        (error) => {
+          this.logger.warn("Request handler failed", {
+            method: request.method,
+            error,
+          });
+          respondWithError(error);
+        },
+      )
+      .catch((error) =>
+        this.logger.error("Failed to respond to request", {
+          method: request.method,
+          error,
+        }),
+      );
+    return true;
+  }
+
+  private respond(
+    socket: WebSocket | null,
+    request: IncomingRequest,
+    createResponse: () => Out,
+  ) {
+    if (request.id === undefined) {
+      return;
+    }
+    if (socket !== this.websocket) {
+      this.logger.debug("Dropping response, the connection changed", {
+        method: request.method,
+      });
+      return;
+    }
+
+    this.send(createResponse(), { allowLimbo: true });
+  }
+
+  private createSocket(endpoint: Endpoint) {
+    const connect = (url: string) => {
+      this.#recorder?.record({ type: "socket", url });
+      return createWebSocket(
+        url,
+        this,
+        (ws, ev) => this.handleMessage(ws as WebSocket, ev),
+        this.logger,
+        this.options.transport,
+      );
+    };
+
+    if (typeof endpoint === "string") {
+      return connect(endpoint);
+    }
+
+    const url = endpoint();
+    return typeof url === "string" ? connect(url) : url.then(connect);
+  }
+
+  private nextEndpoint() {
+    // The previous attempt never connected, e.g. it failed again while already reconnecting
+    this.reportEndpointFailure();
+    this.#endpointPending = true;
+    return this.#endpoints.next();
+  }
+
+  private reportEndpointFailure() {
+    if (!this.#endpointPending) {
+      return;
+    }
+
+    this.logger.warn("Endpoint failed", { endpoint: this.#endpoints.current });
+    this.#endpoints.reportFailure();
+    this.#endpointPending = false;
+  }
+
+  private scheduleFailback() {
+    const failbackAfter = this.options.failover?.failbackAfter;
+    if (
+      failbackAfter == null ||
+      this.#endpoints.current === this.#endpoints.preferred
+    ) {
+      return;
+    }
+
+    this.#failbackTimeout = setTimeout(() => {
+      this.#failbackTimeout = null;
+      if (!this.#endpoints.canFailback) {
+        this.scheduleFailback();
+        return;
+      }
+
+      this.logger.info("Failing back to the preferred endpoint", {
+        endpoint: this.#endpoints.preferred,
+      });
+      this.#ws?.reconnect(TransitionReason.Failback);
+    }, failbackAfter);
+  }
+
+  private stopFailback() {
+    if (this.#failbackTimeout != null) {
+      clearTimeout(this.#failbackTimeout);
+      this.#failbackTimeout = null;
+    }
+  }
+
+  private startPinging() {
+    const { ping } = this.options;
+    if (ping == null || this.#pingInterval != null) {
+      return;
+    }
+
+    this.#pingInterval = setInterval(() => {
+      this.expirePings(ping.timeout ?? ping.interval);
+      const id = this.#nextPingId++;
+      this.#pings.set(id, Date.now());
+      this.send(ping.createPing(id));
+    }, ping.interval);
+  }
+
+  private stopPinging() {
+    if (this.#pingInterval != null) {
+      clearInterval(this.#pingInterval);
+      this.#pingInterval = null;
+    }
+
+    this.#pings.clear();
+    this.#rtt.reset();
+    this.updateQuality();
+  }
+
+  private handlePong(id: number) {
+    const sentAt = this.#pings.get(id);
+    if (sentAt == null) {
+      return;
+    }
+
+    this.#pings.delete(id);
+    this.#rtt.recordSample(Date.now() - sentAt);
+    this.updateQuality();
+  }
+
+  private expirePings(timeout: number) {
+    const now = Date.now();
+    for (const [id, sentAt] of this.#pings) {
+      if (now - sentAt >= timeout) {
+        this.#pings.delete(id);
+        this.#rtt.recordLoss();
+      }
+    }
+    this.updateQuality();
+  }
+
+  private updateQuality() {
+    const quality = this.#rtt.classify(this.options.ping?.thresholds);
+    if (quality === this.#quality) {
+      return;
+    }
+
+    const previousQuality = this.#quality;
+    this.#quality = quality;
+    const rtt = this.#rtt.stats;
+    if (quality === "degraded") {
+      this.logger.warn("Connection degraded", { ...rtt });
+    } else {
+      this.logger.info("Connection quality changed", { quality, ...rtt });
+    }
+    this.#ws?.dispatchEvent(
+      new QualityChangeEvent(quality, previousQuality, rtt),
+    );
+  }
+
+  private flushOutbox(limbo: boolean) {
+    for (const data of this.#outbox?.take(limbo) ?? []) {
+      this.transmit(data);
+    }
+  }
+
+  /**
+   * Move a message that was waiting for the send buffer into the outbox, if there is one
+   */
+  private requeue(data: WebSocketData) {
+    try {
+      return this.#outbox?.enqueue(data) ?? false;
+    } catch (error) {
+      this.logger.warn("Dropping message waiting in sendAsync()", { error });
+      return false;
+    }
+  }
+
+  private canTransmit(options: SendOptions) {
+    const allowLimbo =
+      this.#replaying ||
+      (options.allowLimbo ?? this.options.outbox?.allowLimbo ?? false);
+    return (
+      this.isConnected() || (allowLimbo && this.state === ConnectionState.Limbo)
+    );
+  }
+
+  private transmit(data: WebSocketData) {
+    const { websocket } = this;
+    if (websocket != null) {
+      websocket.send(data);
+      this.#stats.recordOutbound(data);
+      this.#recorder?.recordFrame("outbound", data);
+      this.#sendQueue.watch();
+    }
+  }
+
+  private handleProgress(
+    cmd: PendingCommand,
+    command: StreamingCommand<Out>,
+    message: unknown,
+  ) {
+    try {
+      const progress =
+        command.handleProgress != null
+          ? command.handleProgress(message)
+          : message;
+      cmd.onProgress?.(progress);
+    } catch (error) {
+      this.removePendingCommand(cmd);
+      this.reportCompletion(cmd, error);
+      cmd.promise.reject(error);
+    }
+  }
+
+  /**
+   * Ask the server to stop working on a streaming command the client gave up on
+   */
+  private cancelCommand(cmd: PendingCommand) {
+    const { command } = cmd;
+    if (
+      !isStreaming(command) ||
+      command.cancel == null ||
+      cmd.awaitingReconnect ||
+      !this.isConnected()
+    ) {
+      return;
+    }
+
+    try {
+      command.cancel(this);
+    } catch (error) {
+      this.logger.warn("Failed to cancel command", {
+        command: command.constructor.name,
+        error,
+      });
+    }
+  }
+
+  private rejectPendingCommands(predicate: (cmd: PendingCommand) => boolean) {
+    for (const cmd of this.#pendingCommands.filter(predicate)) {
+      const error = new ConnectionLostError(cmd.command);
+      this.removePendingCommand(cmd);
+      this.reportCompletion(cmd, error);
+      cmd.promise.reject(error);
+    }
+  }
+
+  private reportCompletion(cmd: PendingCommand, error?: unknown) {
+    const elapsed = Date.now() - cmd.executedAt;
+    this.#stats.recordRpc(elapsed, error !== undefined);
+    const fields = {
+      command: cmd.command.constructor.name,
+      rpcId: cmd.rpcId,
+      elapsed,
+    };
+
+    if (error === undefined) {
+      this.logger.debug("Command completed", fields);
+    } else {
+      this.logger.warn("Command failed", { ...fields, error });
+    }
+
+    this.#ws?.dispatchEvent(
+      new RpcCompleteEvent(cmd.command, cmd.rpcId, elapsed, error),
+    );
+  }
+
+  /**
+   * Run the command's `execute()`. If it throws, e.g. `OutboxOverflowError` from `send()`,
+   * the command fails with that error
+   *
+   * @returns `false` if `execute()` threw
+   */
+  private executeCommand(cmd: PendingCommand): boolean {
+    try {
+      cmd.rpcId = cmd.command.execute(this);
+      return true;
+    } catch (error) {
+      this.removePendingCommand(cmd);
+      this.reportCompletion(cmd, error);
+      cmd.promise.reject(error);
+      return false;
+    }
+  }
+
+  private removePendingCommand(command: PendingCommand) {
+    command.dispose?.();
+    this.#pendingCommands = this.#pendingCommands.filter(
+      (cmd) => cmd !== command,
+    );
+  }
+
   private isConnected(): boolean {
     return this.state === ConnectionState.Connected;
   }
 
   handleWebSocketOpen() {
+    const { websocket } = this;
+    if (websocket != null && this.codec.binaryType != null) {
+      websocket.binaryType = this.codec.binaryType;
+    }
+
     this.#ws?.handleWebSocketOpen();
   }
 
-  handleWebSocketError(ws: WebSocket) {
-    this.#ws?.handleWebSocketError(ws);
+  handleWebSocketError(ws: WebSocket, error?: unknown) {
+    this.#ws?.handleWebSocketError(ws, error);
   }
 
-  handleWebSocketClosed(ws: WebSocket) {
-    this.#ws?.handleWebSocketClosed(ws);
+  handleWebSocketClosed(ws: WebSocket, closeInfo?: CloseInfo) {
+    this.#ws?.handleWebSocketClosed(ws, closeInfo);
   }
 
   //#endregion
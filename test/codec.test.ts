@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { jsonCodec, lengthPrefixedCodec, rawCodec } from "../src/codec";
+
+describe("codecs", () => {
+  describe("rawCodec", () => {
+    it("passes frames through unchanged", () => {
+      const buffer = new ArrayBuffer(2);
+
+      expect(rawCodec.encode("text")).toBe("text");
+      expect(rawCodec.decode(buffer)).toBe(buffer);
+    });
+  });
+
+  describe("jsonCodec()", () => {
+    it("round-trips JSON messages", () => {
+      const codec = jsonCodec<{ n: number }, { n: number }>();
+
+      expect(codec.decode(codec.encode({ n: 1 }))).toEqual({ n: 1 });
+    });
+
+    it("rejects binary frames", () => {
+      expect(() => jsonCodec().decode(new ArrayBuffer(1))).toThrow(TypeError);
+    });
+
+    it("throws on malformed JSON", () => {
+      expect(() => jsonCodec().decode("{broken")).toThrow(SyntaxError);
+    });
+  });
+
+  describe("lengthPrefixedCodec()", () => {
+    const codec = lengthPrefixedCodec();
+
+    it("round-trips multiple parts in one frame", () => {
+      const header = new Uint8Array([1, 2]);
+      const payload = new Uint8Array([3, 4, 5]);
+
+      const frame = codec.encode([header, payload]) as ArrayBuffer;
+      const parts = codec.decode(frame);
+
+      expect(frame.byteLength).toBe(4 + 2 + 4 + 3);
+      expect(parts.map((part) => Array.from(part))).toEqual([
+        [1, 2],
+        [3, 4, 5],
+      ]);
+    });
+
+    it("writes big-endian length prefixes", () => {
+      const frame = codec.encode([new Uint8Array(258)]) as ArrayBuffer;
+
+      expect(Array.from(new Uint8Array(frame, 0, 4))).toEqual([0, 0, 1, 2]);
+    });
+
+    it("rejects truncated frames", () => {
+      const frame = codec.encode([new Uint8Array([1, 2, 3])]) as ArrayBuffer;
+
+      expect(() => codec.decode(frame.slice(0, 5))).toThrow(RangeError);
+      expect(() => codec.decode(frame.slice(0, 2))).toThrow(RangeError);
+    });
+
+    it("asks for arraybuffer frames", () => {
+      expect(codec.binaryType).toBe("arraybuffer");
+      expect(() => codec.decode("text")).toThrow(TypeError);
+    });
+  });
+});
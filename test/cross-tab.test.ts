@@ -0,0 +1,519 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { jsonCodec } from "../src/codec";
+import { CrossTabWebSocket } from "../src/cross-tab";
+import {
+  ConnectionStateChangeEvent,
+  MessageReceivedEvent,
+} from "../src/events";
+import { JsonRpcRequestCommand } from "../src/json-rpc";
+import type { CrossTabChannel, CrossTabLocks } from "../src/leader-election";
+import { LeaderElection } from "../src/leader-election";
+import { silentLogger } from "../src/logger";
+import { ConnectionState } from "../src/models";
+import type { RemoteCommand } from "../src/rpc";
+import { MockServer } from "../src/testing";
+import { GreatWebSocket } from "../src/websocket";
+
+/**
+ * In-memory stand-in for `BroadcastChannel`: asynchronous delivery to every other channel with the same name
+ */
+const createBus = () => {
+  const channels = new Map<string, Set<CrossTabChannel>>();
+  return (name: string): CrossTabChannel => {
+    const peers = channels.get(name) ?? new Set<CrossTabChannel>();
+    channels.set(name, peers);
+    const channel: CrossTabChannel = {
+      onmessage: null,
+      postMessage(message) {
+        if (!peers.has(channel)) {
+          return;
+        }
+
+        const data = structuredClone(message);
+        for (const peer of peers) {
+          if (peer !== channel) {
+            queueMicrotask(() => {
+              if (peers.has(peer)) {
+                peer.onmessage?.({ data } as MessageEvent);
+              }
+            });
+          }
+        }
+      },
+      close() {
+        peers.delete(channel);
+      },
+    };
+    peers.add(channel);
+    return channel;
+  };
+};
+
+class FakeSocket extends EventTarget {
+  state: ConnectionState = ConnectionState.Disconnected;
+  activate = vi.fn(() => this.setState(ConnectionState.Connected));
+  shutdown = vi.fn();
+  send = vi.fn();
+  call = vi.fn(async (command: { result: unknown }) => command.result);
+  subscribe = vi.fn((key: string) => ({
+    key,
+    unsubscribe: vi.fn(async () => {}),
+  }));
+
+  setState(state: ConnectionState) {
+    const previousState = this.state;
+    this.state = state;
+    this.dispatchEvent(new ConnectionStateChangeEvent(state, previousState));
+  }
+
+  receive(message: unknown) {
+    this.dispatchEvent(
+      new MessageReceivedEvent(message, JSON.stringify(message)),
+    );
+  }
+}
+
+const echo = (params: unknown) =>
+  ({ result: params }) as unknown as RemoteCommand<unknown>;
+
+describe("CrossTabWebSocket", () => {
+  let channel: ReturnType<typeof createBus>;
+  let sockets: FakeSocket[];
+  let tabs: CrossTabWebSocket[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    channel = createBus();
+    sockets = [];
+    tabs = [];
+  });
+
+  afterEach(() => {
+    for (const tab of tabs) {
+      tab.shutdown();
+    }
+    vi.useRealTimers();
+  });
+
+  const openTab = () => {
+    const tab = new CrossTabWebSocket(
+      "app",
+      () => {
+        const socket = new FakeSocket();
+        sockets.push(socket);
+        return socket as unknown as GreatWebSocket;
+      },
+      { channel, commands: { echo }, logger: silentLogger },
+    );
+    tabs.push(tab);
+    tab.activate();
+    return tab;
+  };
+
+  const openTabs = async () => {
+    const leader = openTab();
+    await vi.advanceTimersByTimeAsync(200);
+    const follower = openTab();
+    await vi.advanceTimersByTimeAsync(200);
+    return { leader, follower };
+  };
+
+  it("elects a single leader that owns the connection", async () => {
+    const { leader, follower } = await openTabs();
+
+    expect(leader.isLeader).toBe(true);
+    expect(follower.isLeader).toBe(false);
+    expect(follower.leader).toBe(leader.id);
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].activate).toHaveBeenCalled();
+  });
+
+  it("mirrors the connection state in every tab", async () => {
+    const { leader, follower } = await openTabs();
+    const handler = vi.fn();
+    follower.addEventListener("statechange", handler);
+
+    sockets[0].setState(ConnectionState.Reconnecting);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(leader.state).toBe(ConnectionState.Reconnecting);
+    expect(follower.state).toBe(ConnectionState.Reconnecting);
+    expect(handler.mock.calls[0][0].previousState).toBe(
+      ConnectionState.Connected,
+    );
+  });
+
+  it("delivers incoming messages to every tab", async () => {
+    const { leader, follower } = await openTabs();
+    const leaderHandler = vi.fn();
+    const followerHandler = vi.fn();
+    leader.addEventListener("message", leaderHandler);
+    follower.addEventListener("message", followerHandler);
+
+    sockets[0].receive({ price: 42 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(leaderHandler.mock.calls[0][0].message).toEqual({ price: 42 });
+    expect(followerHandler.mock.calls[0][0].message).toEqual({ price: 42 });
+  });
+
+  it("proxies send() through the leader", async () => {
+    const { follower } = await openTabs();
+
+    follower.send("hello");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sockets[0].send).toHaveBeenCalledWith("hello");
+  });
+
+  it("proxies call() through the leader and returns the result", async () => {
+    const { leader, follower } = await openTabs();
+
+    const fromFollower = follower.call({ name: "echo", params: [1, 2] });
+    const fromLeader = leader.call({ name: "echo", params: "local" });
+
+    await expect(fromFollower).resolves.toEqual([1, 2]);
+    await expect(fromLeader).resolves.toBe("local");
+  });
+
+  it("rejects calls of unknown commands", async () => {
+    const { follower } = await openTabs();
+
+    await expect(follower.call({ name: "missing" })).rejects.toThrow(
+      "Unknown command: missing",
+    );
+  });
+
+  it("queues requests made before a leader is known", async () => {
+    const tab = openTab();
+    tab.send("early");
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(sockets[0].send).toHaveBeenCalledWith("early");
+  });
+
+  it("shares one server-side subscription per key", async () => {
+    const { leader, follower } = await openTabs();
+
+    const first = leader.subscribe(
+      "prices",
+      { name: "echo" },
+      { name: "echo" },
+    );
+    const second = follower.subscribe(
+      "prices",
+      { name: "echo" },
+      { name: "echo" },
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sockets[0].subscribe).toHaveBeenCalledTimes(1);
+
+    const shared = sockets[0].subscribe.mock.results[0].value;
+    await first.unsubscribe();
+    expect(shared.unsubscribe).not.toHaveBeenCalled();
+
+    await second.unsubscribe();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(shared.unsubscribe).toHaveBeenCalled();
+  });
+
+  it("hands over to another tab and replays its subscriptions", async () => {
+    const { leader, follower } = await openTabs();
+    follower.subscribe("prices", { name: "echo" }, { name: "echo" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    leader.shutdown();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(sockets[0].shutdown).toHaveBeenCalled();
+    expect(follower.isLeader).toBe(true);
+    expect(sockets).toHaveLength(2);
+    expect(sockets[1].subscribe).toHaveBeenCalledWith(
+      "prices",
+      expect.any(Function),
+      expect.any(Function),
+    );
+  });
+
+  it("rejects calls in flight when the leader changes", async () => {
+    const { leader, follower } = await openTabs();
+    sockets[0].call.mockReturnValue(new Promise(() => {}));
+
+    const call = follower.call({ name: "echo" });
+    const rejected = expect(call).rejects.toMatchObject({
+      name: "LeaderChangedError",
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    leader.shutdown();
+    await vi.advanceTimersByTimeAsync(0);
+
+    await rejected;
+  });
+});
+
+describe("CrossTabWebSocket over MockServer", () => {
+  let channel: ReturnType<typeof createBus>;
+  let server: MockServer;
+  let tabs: CrossTabWebSocket[];
+  let nextId: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    channel = createBus();
+    server = new MockServer();
+    server.onMessage = (connection, data) => {
+      const { id, params } = JSON.parse(data as string);
+      if (id != null) {
+        connection.push(JSON.stringify({ jsonrpc: "2.0", id, result: params }));
+      }
+    };
+    tabs = [];
+    nextId = 0;
+  });
+
+  afterEach(() => {
+    for (const tab of tabs) {
+      tab.shutdown();
+    }
+    vi.useRealTimers();
+  });
+
+  const openTab = () => {
+    const tab = new CrossTabWebSocket(
+      "app",
+      () =>
+        new GreatWebSocket(
+          "ws://mock",
+          async () => true,
+          () => {},
+          () => {},
+          {
+            codec: jsonCodec(),
+            routeResponses: true,
+            logger: silentLogger,
+            transport: { WebSocket: server.WebSocket },
+          },
+        ),
+      {
+        channel,
+        commands: {
+          echo: (params) => new JsonRpcRequestCommand(nextId++, "echo", params),
+        },
+        logger: silentLogger,
+      },
+    );
+    tabs.push(tab);
+    tab.activate();
+    return tab;
+  };
+
+  const settle = async (ms: number) => {
+    await vi.advanceTimersByTimeAsync(ms);
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    await server.flush();
+  };
+
+  it("holds requests until the leader's socket is connected", async () => {
+    const tab = openTab();
+
+    tab.send({ jsonrpc: "2.0", method: "hello" });
+    const call = tab.call({ name: "echo", params: [1] });
+    await settle(200);
+
+    await expect(call).resolves.toEqual([1]);
+    expect(server.sent).toHaveLength(2);
+  });
+
+  it("holds requests until the new leader's socket is connected", async () => {
+    const leader = openTab();
+    await settle(200);
+    const follower = openTab();
+    await settle(200);
+
+    leader.shutdown();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(follower.leader).toBeNull();
+    follower.send({ jsonrpc: "2.0", method: "hello" });
+    const call = follower.call({ name: "echo", params: [2] });
+    await settle(200);
+
+    expect(follower.isLeader).toBe(true);
+    await expect(call).resolves.toEqual([2]);
+    expect(server.connections).toHaveLength(2);
+    expect(server.connection?.sent).toHaveLength(2);
+  });
+});
+
+describe("LeaderElection", () => {
+  let channel: ReturnType<typeof createBus>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    channel = createBus();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets the lowest id win a simultaneous election", async () => {
+    const onA = vi.fn();
+    const onB = vi.fn();
+    const b = new LeaderElection(channel("election"), onB, {}, "b");
+    const a = new LeaderElection(channel("election"), onA, {}, "a");
+
+    b.start();
+    a.start();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(a.isLeader).toBe(true);
+    expect(b.leader).toBe("a");
+    expect(onB).toHaveBeenLastCalledWith("a");
+  });
+
+  it("re-elects when the leader goes silent", async () => {
+    const leaderChannel = channel("election");
+    const a = new LeaderElection(leaderChannel, vi.fn(), {}, "a");
+    const b = new LeaderElection(channel("election"), vi.fn(), {}, "b");
+    a.start();
+    await vi.advanceTimersByTimeAsync(200);
+    b.start();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(b.leader).toBe("a");
+
+    // The tab crashed: no resign, no more heartbeats
+    leaderChannel.close();
+    await vi.advanceTimersByTimeAsync(3200);
+
+    expect(b.isLeader).toBe(true);
+    a.stop();
+    b.stop();
+  });
+
+  it("keeps the new leader when a deposed one wakes up", async () => {
+    const leaderChannel = channel("election");
+    const postMessage = leaderChannel.postMessage.bind(leaderChannel);
+    let throttled = false;
+    leaderChannel.postMessage = (message) => {
+      if (!throttled) {
+        postMessage(message);
+      }
+    };
+    const onB = vi.fn();
+    const a = new LeaderElection(leaderChannel, vi.fn(), {}, "a");
+    const b = new LeaderElection(channel("election"), onB, {}, "b");
+    a.start();
+    await vi.advanceTimersByTimeAsync(200);
+    b.start();
+    await vi.advanceTimersByTimeAsync(200);
+
+    // Hidden tab: its heartbeats stop, then resume
+    throttled = true;
+    await vi.advanceTimersByTimeAsync(3500);
+    expect(b.isLeader).toBe(true);
+    throttled = false;
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(b.isLeader).toBe(true);
+    expect(a.leader).toBe("b");
+    expect(onB).toHaveBeenLastCalledWith("b");
+    a.stop();
+    b.stop();
+  });
+
+  describe("with Web Locks", () => {
+    /**
+     * Grants each lock to one request at a time, in order
+     */
+    const createLocks = (): CrossTabLocks => {
+      const queues = new Map<string, Promise<unknown>>();
+      return {
+        request(name, { signal }, callback) {
+          const granted = (queues.get(name) ?? Promise.resolve()).then(() => {
+            if (signal?.aborted) {
+              throw new DOMException("Aborted", "AbortError");
+            }
+            return callback();
+          });
+          queues.set(
+            name,
+            granted.catch(() => {}),
+          );
+          return granted;
+        },
+      };
+    };
+
+    it("leads while holding the lock, without heartbeats", async () => {
+      const locks = createLocks();
+      const onB = vi.fn();
+      const a = new LeaderElection(
+        channel("election"),
+        vi.fn(),
+        { locks },
+        "b-first",
+        "lock",
+      );
+      const b = new LeaderElection(
+        channel("election"),
+        onB,
+        { locks },
+        "a-second",
+        "lock",
+      );
+      a.start();
+      await vi.advanceTimersByTimeAsync(0);
+      b.start();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(a.isLeader).toBe(true);
+      expect(b.leader).toBe("b-first");
+
+      a.stop();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(b.isLeader).toBe(true);
+      expect(onB.mock.calls).toEqual([["b-first"], [null], ["a-second"]]);
+      b.stop();
+    });
+
+    it("leaves the lock queue when stopped while waiting", async () => {
+      const locks = createLocks();
+      const a = new LeaderElection(
+        channel("election"),
+        vi.fn(),
+        { locks },
+        "a",
+        "lock",
+      );
+      const b = new LeaderElection(
+        channel("election"),
+        vi.fn(),
+        { locks },
+        "b",
+        "lock",
+      );
+      const c = new LeaderElection(
+        channel("election"),
+        vi.fn(),
+        { locks },
+        "c",
+        "lock",
+      );
+      a.start();
+      b.start();
+      c.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      b.stop();
+      a.stop();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(b.isLeader).toBe(false);
+      expect(c.isLeader).toBe(true);
+      c.stop();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EndpointPool } from "../src/endpoint-pool";
+
+describe("EndpointPool", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("requires at least one endpoint", () => {
+    expect(() => new EndpointPool([])).toThrow(RangeError);
+  });
+
+  it("skips failed endpoints until their cooldown ends", () => {
+    const pool = new EndpointPool(["a", "b", "c"], { cooldown: 1000 });
+
+    expect(pool.next()).toBe("a");
+    pool.reportFailure();
+    expect(pool.next()).toBe("b");
+    pool.reportFailure();
+    expect(pool.next()).toBe("c");
+
+    vi.advanceTimersByTime(1000);
+    expect(pool.next()).toBe("a");
+  });
+
+  it("uses the endpoint recovering first when all are cooling down", () => {
+    const pool = new EndpointPool(["a", "b"], { cooldown: 1000 });
+
+    pool.next();
+    pool.reportFailure();
+    vi.advanceTimersByTime(100);
+    pool.next();
+    pool.reportFailure();
+
+    expect(pool.next()).toBe("a");
+  });
+
+  it("resets the health of an endpoint that connected", () => {
+    const pool = new EndpointPool(["a"], { cooldown: 1000 });
+
+    pool.next();
+    pool.reportFailure();
+    pool.reportFailure();
+    pool.reportSuccess();
+
+    expect(pool.health).toEqual([{ url: "a", failures: 0, cooldownUntil: 0 }]);
+  });
+
+  it("rotates through healthy endpoints with round-robin", () => {
+    const pool = new EndpointPool(["a", "b", "c"], {
+      strategy: "round-robin",
+    });
+
+    pool.next();
+    pool.next();
+    pool.reportFailure();
+
+    expect([pool.next(), pool.next(), pool.next()]).toEqual(["c", "a", "c"]);
+  });
+
+  it("only allows failback to a healthy preferred endpoint", () => {
+    const pool = new EndpointPool(["a", "b"], {
+      cooldown: 1000,
+      failbackAfter: 5000,
+    });
+
+    pool.next();
+    pool.reportFailure();
+    pool.next();
+    expect(pool.current).toBe("b");
+    expect(pool.canFailback).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(pool.canFailback).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  browserEnvironment,
+  type EnvironmentListener,
+  nullEnvironment,
+} from "../src/environment";
+
+const createGlobals = () => {
+  const window = new EventTarget();
+  const document = Object.assign(new EventTarget(), {
+    visibilityState: "visible" as DocumentVisibilityState,
+  });
+  const navigator = { onLine: true };
+  return { window, document, navigator };
+};
+
+const createListener = (): EnvironmentListener => ({
+  online: vi.fn(),
+  offline: vi.fn(),
+  visible: vi.fn(),
+});
+
+describe("environment monitors", () => {
+  it("browserEnvironment reports navigator.onLine", () => {
+    const globals = createGlobals();
+    const environment = browserEnvironment(globals);
+
+    expect(environment.online).toBe(true);
+    globals.navigator.onLine = false;
+    expect(environment.online).toBe(false);
+  });
+
+  it("browserEnvironment forwards online and offline events", () => {
+    const globals = createGlobals();
+    const listener = createListener();
+    browserEnvironment(globals).subscribe(listener);
+
+    globals.window.dispatchEvent(new Event("offline"));
+    globals.window.dispatchEvent(new Event("online"));
+
+    expect(listener.offline).toHaveBeenCalledTimes(1);
+    expect(listener.online).toHaveBeenCalledTimes(1);
+  });
+
+  it("browserEnvironment only reports the page becoming visible", () => {
+    const globals = createGlobals();
+    const listener = createListener();
+    browserEnvironment(globals).subscribe(listener);
+
+    globals.document.visibilityState = "hidden";
+    globals.document.dispatchEvent(new Event("visibilitychange"));
+    globals.document.visibilityState = "visible";
+    globals.document.dispatchEvent(new Event("visibilitychange"));
+
+    expect(listener.visible).toHaveBeenCalledTimes(1);
+  });
+
+  it("browserEnvironment stops forwarding after unsubscribing", () => {
+    const globals = createGlobals();
+    const listener = createListener();
+    const unsubscribe = browserEnvironment(globals).subscribe(listener);
+
+    unsubscribe();
+    globals.window.dispatchEvent(new Event("online"));
+    globals.document.dispatchEvent(new Event("visibilitychange"));
+
+    expect(listener.online).not.toHaveBeenCalled();
+    expect(listener.visible).not.toHaveBeenCalled();
+  });
+
+  it("browserEnvironment tolerates missing globals", () => {
+    const environment = browserEnvironment({});
+
+    expect(environment.online).toBe(true);
+    expect(() => environment.subscribe(createListener())()).not.toThrow();
+  });
+
+  it("nullEnvironment is always online", () => {
+    expect(nullEnvironment.online).toBe(true);
+    expect(() => nullEnvironment.subscribe(createListener())()).not.toThrow();
+  });
+});
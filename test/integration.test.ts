@@ -0,0 +1,159 @@
+// @vitest-environment node
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket as NodeWebSocket, WebSocketServer } from "ws";
+import { jsonCodec } from "../src/codec";
+import { JsonRpcClient } from "../src/json-rpc";
+import { silentLogger } from "../src/logger";
+import { ConnectionState, type ConnectionState as State } from "../src/models";
+import { closeCodeClassifier, fixedDelay } from "../src/reconnect-policy";
+import { GreatWebSocket, type GreatWebSocketOptions } from "../src/websocket";
+
+const waitForState = (ws: GreatWebSocket<any, any>, state: State) =>
+  new Promise<void>((resolve) => {
+    if (ws.state === state) {
+      resolve();
+      return;
+    }
+
+    const listener = (ev: { state: State }) => {
+      if (ev.state === state) {
+        ws.removeEventListener("statechange", listener);
+        resolve();
+      }
+    };
+    ws.addEventListener("statechange", listener);
+  });
+
+describe("GreatWebSocket against a local server", () => {
+  let server: WebSocketServer;
+  let url: string;
+  let subject: GreatWebSocket<any, any> | null;
+
+  beforeEach(async () => {
+    vi.useRealTimers();
+    server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    subject = null;
+  });
+
+  afterEach(async () => {
+    subject?.shutdown();
+    for (const client of server.clients) {
+      client.terminate();
+    }
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const connect = <In, Out>(
+    onMessageFn: (ws: WebSocket, ev: MessageEvent, message: In) => void,
+    options: GreatWebSocketOptions<In, Out> = {},
+  ) => {
+    const ws = new GreatWebSocket<In, Out>(
+      url,
+      async () => true,
+      onMessageFn,
+      () => {},
+      {
+        logger: silentLogger,
+        reconnectPolicy: fixedDelay(20),
+        ...options,
+        transport: { WebSocket: NodeWebSocket, ...options.transport },
+      },
+    );
+    subject = ws;
+    ws.activate();
+    return ws;
+  };
+
+  it("exchanges messages through a codec", async () => {
+    server.on("connection", (client) => {
+      client.on("message", (data) => {
+        const { n } = JSON.parse(data.toString());
+        client.send(JSON.stringify({ n: n + 1 }));
+      });
+    });
+    const received = new Promise((resolve) => {
+      const ws = connect<{ n: number }, { n: number }>(
+        (_ws, _ev, message) => resolve(message),
+        { codec: jsonCodec() },
+      );
+      waitForState(ws, ConnectionState.Connected).then(() => ws.send({ n: 1 }));
+    });
+
+    await expect(received).resolves.toEqual({ n: 2 });
+  });
+
+  it("passes protocols and implementation-specific options to the constructor", async () => {
+    const handshake = new Promise<{ protocol: string; token?: string }>(
+      (resolve) => {
+        server.on("connection", (client, request) => {
+          resolve({
+            protocol: client.protocol,
+            token: request.headers["x-token"] as string | undefined,
+          });
+        });
+      },
+    );
+
+    connect(() => {}, {
+      transport: {
+        protocols: ["v2.example"],
+        options: { headers: { "x-token": "secret" } },
+      },
+    });
+
+    await expect(handshake).resolves.toEqual({
+      protocol: "v2.example",
+      token: "secret",
+    });
+  });
+
+  it("reconnects after the server drops the connection", async () => {
+    let connections = 0;
+    server.on("connection", (client) => {
+      connections++;
+      if (connections === 1) {
+        client.close(1012, "restarting");
+      }
+    });
+
+    const ws = connect(() => {});
+    await waitForState(ws, ConnectionState.Reconnecting);
+    await waitForState(ws, ConnectionState.Connected);
+
+    expect(connections).toBe(2);
+  });
+
+  it("stops reconnecting after a fatal close code", async () => {
+    server.on("connection", (client) => client.close(4001, "unauthorized"));
+
+    const ws = connect(() => {}, {
+      classifyClose: closeCodeClassifier({ stop: [4001] }),
+    });
+    await waitForState(ws, ConnectionState.Error);
+
+    expect(ws.lastClose).toMatchObject({ code: 4001, reason: "unauthorized" });
+  });
+
+  it("routes JSON-RPC responses to their calls", async () => {
+    server.on("connection", (client) => {
+      client.on("message", (data) => {
+        const { id, params } = JSON.parse(data.toString());
+        client.send(
+          JSON.stringify({ jsonrpc: "2.0", id, result: params[0] * 2 }),
+        );
+      });
+    });
+
+    const ws = connect(() => {}, {
+      codec: jsonCodec(),
+      routeResponses: true,
+    });
+    await waitForState(ws, ConnectionState.Connected);
+
+    const rpc = new JsonRpcClient(ws);
+    await expect(rpc.request("double", [21])).resolves.toBe(42);
+  });
+});
@@ -0,0 +1,364 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { jsonCodec } from "../src/codec";
+import { JsonRpcError, MethodNotFoundError } from "../src/errors";
+import {
+  JsonRpcBatchCommand,
+  JsonRpcClient,
+  type JsonRpcOutbound,
+  JsonRpcRequestCommand,
+  jsonRpcRequests,
+} from "../src/json-rpc";
+import { silentLogger } from "../src/logger";
+import type { RemoteCommand } from "../src/rpc";
+import { MockServer } from "../src/testing";
+import { GreatWebSocket } from "../src/websocket";
+
+describe("JSON-RPC", () => {
+  describe("JsonRpcRequestCommand", () => {
+    it("sends a request and matches the response by id", () => {
+      const ws = { send: vi.fn() };
+      const command = new JsonRpcRequestCommand(7, "join", { room: "a" });
+
+      const rpcId = command.execute(ws as unknown as GreatWebSocket);
+
+      expect(rpcId).toBe("7");
+      expect(ws.send).toHaveBeenCalledWith({
+        jsonrpc: "2.0",
+        id: 7,
+        method: "join",
+        params: { room: "a" },
+      });
+      expect(
+        command.responseMatches({ jsonrpc: "2.0", id: 7, result: 1 }),
+      ).toBe(true);
+      expect(
+        command.responseMatches({ jsonrpc: "2.0", id: 8, result: 1 }),
+      ).toBe(false);
+      expect(command.responseMatches({ jsonrpc: "2.0", method: "x" })).toBe(
+        false,
+      );
+    });
+
+    it("returns the result or throws JsonRpcError", () => {
+      const command = new JsonRpcRequestCommand(1, "join");
+
+      expect(
+        command.handleResponse({ jsonrpc: "2.0", id: 1, result: "ok" }),
+      ).toBe("ok");
+      expect(() =>
+        command.handleResponse({
+          jsonrpc: "2.0",
+          id: 1,
+          error: { code: -32601, message: "Method not found", data: "join" },
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          name: "JsonRpcError",
+          code: -32601,
+          data: "join",
+        }),
+      );
+    });
+  });
+
+  describe("JsonRpcBatchCommand", () => {
+    const command = new JsonRpcBatchCommand([
+      { jsonrpc: "2.0", id: 1, method: "a" },
+      { jsonrpc: "2.0", method: "log" },
+      { jsonrpc: "2.0", id: 2, method: "b" },
+    ]);
+
+    it("matches batch responses containing its ids", () => {
+      expect(
+        command.responseMatches([{ jsonrpc: "2.0", id: 2, result: 1 }]),
+      ).toBe(true);
+      expect(
+        command.responseMatches([{ jsonrpc: "2.0", id: 3, result: 1 }]),
+      ).toBe(false);
+      expect(
+        command.responseMatches({ jsonrpc: "2.0", id: 1, result: 1 }),
+      ).toBe(false);
+    });
+
+    it("settles one result per call, in request order", () => {
+      const results = command.handleResponse([
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          error: { code: 1, message: "nope" },
+        },
+        { jsonrpc: "2.0", id: 1, result: "a" },
+      ]);
+
+      expect(results[0]).toEqual({ status: "fulfilled", value: "a" });
+      expect(results[1]).toEqual({ status: "fulfilled", value: undefined });
+      expect(results[2].status).toBe("rejected");
+      expect((results[2] as PromiseRejectedResult).reason).toBeInstanceOf(
+        JsonRpcError,
+      );
+    });
+  });
+
+  describe("JsonRpcClient", () => {
+    let ws: { send: ReturnType<typeof vi.fn>; call: ReturnType<typeof vi.fn> };
+    let client: JsonRpcClient;
+
+    beforeEach(() => {
+      ws = {
+        send: vi.fn().mockReturnValue(true),
+        call: vi.fn((command: RemoteCommand<unknown>) => {
+          command.execute(ws as unknown as GreatWebSocket);
+          return Promise.resolve("result");
+        }),
+      };
+      client = new JsonRpcClient(
+        ws as unknown as GreatWebSocket<unknown, never>,
+      );
+    });
+
+    it("assigns auto-incrementing ids to requests", async () => {
+      const options = { timeout: 1000 };
+
+      await client.request("first");
+      await client.request("second", [1, 2], options);
+
+      expect(ws.send).toHaveBeenNthCalledWith(1, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "first",
+        params: undefined,
+      });
+      expect(ws.send).toHaveBeenNthCalledWith(2, {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "second",
+        params: [1, 2],
+      });
+      expect(ws.call.mock.calls[1][1]).toBe(options);
+    });
+
+    it("sends notifications without an id", () => {
+      const sent = client.notify("typing", { on: true });
+
+      expect(sent).toBe(true);
+      expect(ws.send).toHaveBeenCalledWith({
+        jsonrpc: "2.0",
+        method: "typing",
+        params: { on: true },
+      });
+      expect(ws.call).not.toHaveBeenCalled();
+    });
+
+    it("sends batches as a single frame", async () => {
+      await client.batch([
+        { method: "a" },
+        { method: "log", notify: true },
+        { method: "b", params: 1 },
+      ]);
+
+      expect(ws.send).toHaveBeenCalledTimes(1);
+      expect(ws.send).toHaveBeenCalledWith([
+        { jsonrpc: "2.0", id: 1, method: "a", params: undefined },
+        { jsonrpc: "2.0", method: "log", params: undefined },
+        { jsonrpc: "2.0", id: 2, method: "b", params: 1 },
+      ]);
+    });
+
+    it("does not wait for a response to a batch of notifications", async () => {
+      const results = await client.batch([{ method: "log", notify: true }]);
+
+      expect(ws.call).not.toHaveBeenCalled();
+      expect(results).toEqual([{ status: "fulfilled", value: undefined }]);
+    });
+  });
+
+  describe("jsonRpcRequests", () => {
+    const protocol = jsonRpcRequests();
+
+    it("parses requests and notifications", () => {
+      expect(
+        protocol.parse({ jsonrpc: "2.0", id: 3, method: "ping", params: [1] }),
+      ).toEqual({ id: 3, method: "ping", params: [1] });
+      expect(protocol.parse({ jsonrpc: "2.0", method: "log" })).toEqual({
+        id: undefined,
+        method: "log",
+        params: undefined,
+      });
+      expect(protocol.parse({ jsonrpc: "2.0", id: 3, result: 1 })).toBeNull();
+    });
+
+    it("formats results and errors", () => {
+      const request = { id: 3, method: "ping", params: undefined };
+
+      expect(protocol.result(request, undefined)).toEqual({
+        jsonrpc: "2.0",
+        id: 3,
+        result: null,
+      });
+      expect(
+        protocol.error(request, new JsonRpcError({ code: 42, message: "no" })),
+      ).toMatchObject({ error: { code: 42, message: "no" } });
+      expect(
+        protocol.error(request, new MethodNotFoundError("ping")),
+      ).toMatchObject({ error: { code: -32601, message: "Method not found" } });
+      expect(protocol.error(request, new Error("boom"))).toMatchObject({
+        error: { code: -32603, message: "boom" },
+      });
+    });
+  });
+
+  describe("Server requests", () => {
+    let server: MockServer;
+    let ws: GreatWebSocket<unknown, JsonRpcOutbound>;
+
+    beforeEach(async () => {
+      server = new MockServer();
+      ws = new GreatWebSocket<unknown, JsonRpcOutbound>(
+        "ws://mock",
+        async () => true,
+        () => {},
+        () => {},
+        {
+          logger: silentLogger,
+          codec: jsonCodec(),
+          routeResponses: true,
+          requestProtocol: jsonRpcRequests(),
+          transport: { WebSocket: server.WebSocket },
+        },
+      );
+      ws.activate();
+      await server.flush();
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    afterEach(() => {
+      ws.shutdown();
+    });
+
+    const request = async (message: object) => {
+      server.connection?.push(JSON.stringify({ jsonrpc: "2.0", ...message }));
+      await server.flush();
+      await vi.advanceTimersByTimeAsync(0);
+      return server.sent.map((frame) => JSON.parse(frame as string));
+    };
+
+    it("answers requests with the handler's result", async () => {
+      ws.handle<{ kind: string }>("devices.list", async ({ kind }) => [
+        `${kind}-1`,
+      ]);
+
+      const sent = await request({
+        id: 1,
+        method: "devices.list",
+        params: { kind: "camera" },
+      });
+
+      expect(sent).toEqual([{ jsonrpc: "2.0", id: 1, result: ["camera-1"] }]);
+    });
+
+    it("answers with an error when the handler throws", async () => {
+      ws.handle("devices.list", () => {
+        throw new JsonRpcError({ code: 403, message: "Not allowed" });
+      });
+
+      const sent = await request({ id: "a", method: "devices.list" });
+
+      expect(sent).toEqual([
+        {
+          jsonrpc: "2.0",
+          id: "a",
+          error: { code: 403, message: "Not allowed" },
+        },
+      ]);
+    });
+
+    it("answers with an error when the result can't be encoded", async () => {
+      ws.handle("devices.count", () => ({ n: 1n }));
+
+      const sent = await request({ id: 3, method: "devices.count" });
+
+      expect(sent).toEqual([
+        {
+          jsonrpc: "2.0",
+          id: 3,
+          error: { code: -32603, message: expect.any(String) },
+        },
+      ]);
+    });
+
+    it("answers requests for unknown methods with method not found", async () => {
+      const sent = await request({ id: 2, method: "missing" });
+
+      expect(sent).toEqual([
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          error: { code: -32601, message: "Method not found" },
+        },
+      ]);
+    });
+
+    it("does not answer notifications", async () => {
+      const handler = vi.fn();
+      ws.handle("log", handler);
+
+      const sent = await request({ method: "log", params: "hello" });
+
+      expect(handler).toHaveBeenCalledWith("hello", {
+        id: undefined,
+        method: "log",
+        params: "hello",
+      });
+      expect(sent).toEqual([]);
+    });
+
+    it("handles requests alongside responses to its own calls", async () => {
+      ws.handle("ping", () => "pong");
+      const rpc = new JsonRpcClient(ws);
+      const result = rpc.request("time");
+      server.connection?.push(
+        JSON.stringify({ jsonrpc: "2.0", id: 1, result: 1234 }),
+      );
+
+      const sent = await request({ id: 1, method: "ping" });
+
+      await expect(result).resolves.toBe(1234);
+      expect(sent).toEqual([
+        { jsonrpc: "2.0", id: 1, method: "time" },
+        { jsonrpc: "2.0", id: 1, result: "pong" },
+      ]);
+    });
+
+    it("removes handlers and rejects duplicates", () => {
+      const remove = ws.handle("ping", () => "pong");
+
+      expect(() => ws.handle("ping", () => "again")).toThrow(
+        "A handler for ping is already registered",
+      );
+      remove();
+      expect(() => ws.handle("ping", () => "again")).not.toThrow();
+    });
+
+    it("drops responses when the connection changed", async () => {
+      let answer: (value: string) => void = () => {};
+      ws.handle(
+        "slow",
+        () =>
+          new Promise((resolve) => {
+            answer = resolve;
+          }),
+      );
+      await request({ id: 1, method: "slow" });
+
+      server.connection?.drop();
+      await server.flush();
+      await vi.advanceTimersByTimeAsync(2000);
+      await server.flush();
+      expect(server.connections).toHaveLength(2);
+      answer("late");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(server.sent).toEqual([]);
+    });
+  });
+});
@@ -1,7 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { ConnectionStateChangeEvent } from "../src/events";
+import type { EnvironmentListener } from "../src/environment";
+import {
+  ConnectionStateChangeEvent,
+  HandshakeFailedEvent,
+  ReconnectScheduledEvent,
+} from "../src/events";
 import { AlwaysConnected } from "../src/keep-online";
-import { ConnectionState } from "../src/models";
+import { ConnectionState, TransitionReason } from "../src/models";
+import type { CloseClassifier, ReconnectPolicy } from "../src/reconnect-policy";
 
 // Mock implementations
 class MockWebSocket {
@@ -112,6 +118,22 @@ describe("AlwaysConnected", () => {
       expect(timeoutHandler).not.toHaveBeenCalled();
     });
 
+    it("dispatches the transition to Disconnected", async () => {
+      const stateChangeHandler = vi.fn();
+      await activateAndConnect();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      alwaysConnected.shutdown();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Disconnected);
+      expect(stateChangeHandler).toHaveBeenCalledTimes(1);
+      expect(stateChangeHandler.mock.calls[0][0]).toMatchObject({
+        state: ConnectionState.Disconnected,
+        previousState: ConnectionState.Connected,
+        reason: TransitionReason.Shutdown,
+      });
+    });
+
     it("can be called repeatedly", () => {
       alwaysConnected.activate();
 
@@ -228,6 +250,92 @@ describe("AlwaysConnected", () => {
     });
   });
 
+  describe("handshake outcomes", () => {
+    const flush = async () => {
+      await Promise.resolve();
+      await Promise.resolve();
+    };
+
+    it("reconnects right away and reports when the handshake returns false", async () => {
+      onConnectedFn.mockResolvedValue(false);
+      const failedHandler = vi.fn();
+      alwaysConnected.addEventListener("handshakefailed", failedHandler);
+
+      activateAndEnterLimbo();
+      await flush();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+      expect(failedHandler).toHaveBeenCalledTimes(1);
+      expect(failedHandler.mock.calls[0][0]).toBeInstanceOf(
+        HandshakeFailedEvent,
+      );
+      expect(failedHandler.mock.calls[0][0].fatal).toBe(false);
+    });
+
+    it("treats a rejected handshake as a retryable failure", async () => {
+      const error = new Error("auth service down");
+      onConnectedFn.mockRejectedValue(error);
+      const failedHandler = vi.fn();
+      const stateChangeHandler = vi.fn();
+      alwaysConnected.addEventListener("handshakefailed", failedHandler);
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      activateAndEnterLimbo();
+      await flush();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+      expect(failedHandler.mock.calls[0][0].error).toBe(error);
+      expect(stateChangeHandler.mock.calls.at(-1)?.[0].reason).toBe(
+        TransitionReason.HandshakeFailed,
+      );
+    });
+
+    it("moves to Error on a fatal outcome", async () => {
+      onConnectedFn.mockResolvedValue({
+        outcome: "fatal",
+        reason: "account suspended",
+      });
+      const failedHandler = vi.fn();
+      alwaysConnected.addEventListener("handshakefailed", failedHandler);
+
+      activateAndEnterLimbo();
+      await flush();
+      vi.advanceTimersByTime(60000);
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Error);
+      expect(alwaysConnected.active).toBe(false);
+      expect(mockWebSocket.close).toHaveBeenCalledTimes(1);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+      expect(failedHandler.mock.calls[0][0]).toMatchObject({
+        fatal: true,
+        reason: "account suspended",
+      });
+    });
+
+    it("accepts an explicit success outcome", async () => {
+      onConnectedFn.mockResolvedValue({ outcome: "success" });
+
+      activateAndEnterLimbo();
+      await flush();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Connected);
+    });
+
+    it("passes the live socket and a signal aborted when the connection drops", () => {
+      activateAndEnterLimbo();
+      const [ws, signal] = onConnectedFn.mock.calls[0] as unknown as [
+        unknown,
+        AbortSignal,
+      ];
+      expect(ws).toBe(mockWebSocket);
+      expect(signal.aborted).toBe(false);
+
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any);
+
+      expect(signal.aborted).toBe(true);
+    });
+  });
+
   describe("handleWebSocketError()", () => {
     it("reconnects the current socket when active", () => {
       alwaysConnected.activate();
@@ -367,6 +475,395 @@ describe("AlwaysConnected", () => {
     });
   });
 
+  describe("close classification", () => {
+    const createWithClassifier = (classifyClose: CloseClassifier) =>
+      new AlwaysConnected(createWebSocketFn, onConnectedFn, sendHeartbeatFn, {
+        heartbeatInterval: 15000,
+        reconnectDelay: 5000,
+        connectionTimeout: 15000,
+        classifyClose,
+      });
+
+    const policyViolation = { code: 1008, reason: "banned", wasClean: true };
+
+    it("moves to Error with the close details when told to stop", async () => {
+      alwaysConnected = createWithClassifier(() => "stop");
+      const stateChangeHandler = vi.fn();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      await activateAndConnect();
+      alwaysConnected.handleWebSocketClosed(
+        mockWebSocket as any,
+        policyViolation,
+      );
+      vi.advanceTimersByTime(60000);
+
+      const lastEvent = stateChangeHandler.mock.calls.at(-1)?.[0];
+      expect(alwaysConnected.state).toBe(ConnectionState.Error);
+      expect(alwaysConnected.active).toBe(false);
+      expect(alwaysConnected.lastClose).toEqual(policyViolation);
+      expect(lastEvent.reason).toBe(TransitionReason.FatalClose);
+      expect(lastEvent.closeInfo).toEqual(policyViolation);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports the close that follows a socket error", async () => {
+      const closedHandler = vi.fn();
+      const abnormal = { code: 1006, reason: "", wasClean: false };
+      alwaysConnected.addEventListener("closed", closedHandler);
+
+      await activateAndConnect();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any, abnormal);
+
+      expect(closedHandler).toHaveBeenCalledTimes(1);
+      expect(alwaysConnected.lastClose).toEqual(abnormal);
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+    });
+
+    it("moves to Error when the close after a socket error is fatal", async () => {
+      alwaysConnected = createWithClassifier(() => "stop");
+
+      await activateAndConnect();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+      alwaysConnected.handleWebSocketClosed(
+        mockWebSocket as any,
+        policyViolation,
+      );
+      vi.advanceTimersByTime(60000);
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Error);
+      expect(alwaysConnected.lastClose).toEqual(policyViolation);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("reconnects after the classified delay, bypassing the policy", () => {
+      const policy = vi.fn<ReconnectPolicy>().mockReturnValue(5000);
+      alwaysConnected = new AlwaysConnected(
+        createWebSocketFn,
+        onConnectedFn,
+        sendHeartbeatFn,
+        {
+          heartbeatInterval: 15000,
+          reconnectDelay: 5000,
+          connectionTimeout: 15000,
+          reconnectPolicy: policy,
+          classifyClose: () => ({ retryAfter: 60000 }),
+        },
+      );
+      const handler = vi.fn();
+      alwaysConnected.addEventListener("reconnectscheduled", handler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any, {
+        code: 1013,
+        reason: "try again later",
+        wasClean: true,
+      });
+      vi.advanceTimersByTime(59999);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(1);
+
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+      expect(policy).not.toHaveBeenCalled();
+      expect(handler.mock.calls[0][0].delay).toBe(60000);
+    });
+
+    it("retries as usual when the close is retryable", () => {
+      alwaysConnected = createWithClassifier(() => "retry");
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketClosed(
+        mockWebSocket as any,
+        policyViolation,
+      );
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+      expect(alwaysConnected.lastClose).toEqual(policyViolation);
+    });
+
+    it("ignores closes of stale sockets", () => {
+      const classifier = vi.fn<CloseClassifier>().mockReturnValue("stop");
+      alwaysConnected = createWithClassifier(classifier);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketClosed(
+        new MockWebSocket() as any,
+        policyViolation,
+      );
+
+      expect(classifier).not.toHaveBeenCalled();
+      expect(alwaysConnected.state).toBe(ConnectionState.Connecting);
+    });
+  });
+
+  describe("liveness watchdog", () => {
+    const createWithLiveness = () =>
+      new AlwaysConnected(createWebSocketFn, onConnectedFn, sendHeartbeatFn, {
+        heartbeatInterval: 15000,
+        reconnectDelay: 5000,
+        connectionTimeout: 15000,
+        livenessTimeout: 10000,
+      });
+
+    it("reconnects and dispatches heartbeattimeout when nothing arrives", async () => {
+      alwaysConnected = createWithLiveness();
+      const timeoutHandler = vi.fn();
+      alwaysConnected.addEventListener("heartbeattimeout", timeoutHandler);
+
+      await activateAndConnect();
+      vi.advanceTimersByTime(10000);
+
+      expect(timeoutHandler).toHaveBeenCalledTimes(1);
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+    });
+
+    it("resets the deadline on every inbound message", async () => {
+      alwaysConnected = createWithLiveness();
+      const timeoutHandler = vi.fn();
+      alwaysConnected.addEventListener("heartbeattimeout", timeoutHandler);
+
+      await activateAndConnect();
+      vi.advanceTimersByTime(9000);
+      alwaysConnected.handleWebSocketMessage();
+      vi.advanceTimersByTime(9000);
+
+      expect(timeoutHandler).not.toHaveBeenCalled();
+      expect(alwaysConnected.state).toBe(ConnectionState.Connected);
+    });
+
+    it("is not armed before the connection is established", () => {
+      alwaysConnected = createWithLiveness();
+      const timeoutHandler = vi.fn();
+      alwaysConnected.addEventListener("heartbeattimeout", timeoutHandler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketMessage();
+      vi.advanceTimersByTime(10000);
+
+      expect(timeoutHandler).not.toHaveBeenCalled();
+    });
+
+    it("stops once shutdown runs", async () => {
+      alwaysConnected = createWithLiveness();
+      const timeoutHandler = vi.fn();
+      alwaysConnected.addEventListener("heartbeattimeout", timeoutHandler);
+
+      await activateAndConnect();
+      alwaysConnected.shutdown();
+      vi.advanceTimersByTime(10000);
+
+      expect(timeoutHandler).not.toHaveBeenCalled();
+    });
+
+    it("is disabled by default", async () => {
+      const timeoutHandler = vi.fn();
+      alwaysConnected.addEventListener("heartbeattimeout", timeoutHandler);
+
+      await activateAndConnect();
+      vi.advanceTimersByTime(60000);
+
+      expect(timeoutHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("asynchronous socket creation", () => {
+    it("uses the socket once the factory resolves", async () => {
+      createWebSocketFn.mockResolvedValueOnce(mockWebSocket as any);
+
+      alwaysConnected.activate();
+      expect(alwaysConnected.websocket).toBeNull();
+
+      await Promise.resolve();
+      expect(alwaysConnected.websocket).toBe(mockWebSocket);
+    });
+
+    it("routes a rejected factory into the reconnect policy", async () => {
+      const error = new Error("token expired");
+      const errorHandler = vi.fn();
+      const stateChangeHandler = vi.fn();
+      createWebSocketFn.mockRejectedValueOnce(error);
+      alwaysConnected.addEventListener("error", errorHandler);
+
+      alwaysConnected.activate();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(errorHandler.mock.calls[0][0].error).toBe(error);
+      expect(stateChangeHandler.mock.calls[0][0].reason).toBe(
+        TransitionReason.SocketCreationFailed,
+      );
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+
+      vi.advanceTimersByTime(5000);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+      expect(alwaysConnected.websocket).toBe(mockWebSocket);
+    });
+
+    it("treats a throwing factory as a failed attempt", () => {
+      createWebSocketFn.mockImplementationOnce(() => {
+        throw new Error("no url");
+      });
+
+      alwaysConnected.activate();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+    });
+
+    it("closes a socket that resolves after shutdown", async () => {
+      let resolve: (ws: any) => void = () => {};
+      createWebSocketFn.mockReturnValueOnce(
+        new Promise((r) => {
+          resolve = r;
+        }) as any,
+      );
+
+      alwaysConnected.activate();
+      alwaysConnected.shutdown();
+      resolve(mockWebSocket);
+      await Promise.resolve();
+
+      expect(mockWebSocket.close).toHaveBeenCalled();
+      expect(alwaysConnected.websocket).toBeNull();
+    });
+  });
+
+  describe("environment awareness", () => {
+    let listener: EnvironmentListener | null;
+    let unsubscribe: vi.Mock;
+    let environment: { online: boolean; subscribe: vi.Mock };
+
+    const createWithEnvironment = (livenessTimeout?: number) =>
+      new AlwaysConnected(createWebSocketFn, onConnectedFn, sendHeartbeatFn, {
+        heartbeatInterval: 15000,
+        reconnectDelay: 5000,
+        connectionTimeout: 15000,
+        livenessTimeout,
+        environment,
+      });
+
+    beforeEach(() => {
+      listener = null;
+      unsubscribe = vi.fn();
+      environment = {
+        online: true,
+        subscribe: vi.fn((l: EnvironmentListener) => {
+          listener = l;
+          return unsubscribe;
+        }),
+      };
+    });
+
+    it("subscribes on activate and unsubscribes on shutdown", () => {
+      alwaysConnected = createWithEnvironment();
+
+      alwaysConnected.activate();
+      expect(environment.subscribe).toHaveBeenCalledTimes(1);
+
+      alwaysConnected.shutdown();
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not schedule reconnects while offline", async () => {
+      alwaysConnected = createWithEnvironment();
+      await activateAndConnect();
+
+      environment.online = false;
+      listener?.offline();
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any);
+      vi.advanceTimersByTime(60000);
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("pauses an already scheduled reconnect when going offline", async () => {
+      alwaysConnected = createWithEnvironment();
+      await activateAndConnect();
+
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any);
+      environment.online = false;
+      listener?.offline();
+      vi.advanceTimersByTime(60000);
+
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("reconnects immediately when the network comes back", async () => {
+      alwaysConnected = createWithEnvironment();
+      await activateAndConnect();
+
+      environment.online = false;
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any);
+      environment.online = true;
+      listener?.online();
+
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+    });
+
+    it("skips the reconnect delay when the page becomes visible", async () => {
+      alwaysConnected = createWithEnvironment();
+      await activateAndConnect();
+
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any);
+      listener?.visible();
+      vi.advanceTimersByTime(5000);
+
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("reconnects a connection found closed when the page becomes visible", async () => {
+      alwaysConnected = createWithEnvironment();
+      const stateHandler = vi.fn();
+      await activateAndConnect();
+      alwaysConnected.addEventListener("statechange", stateHandler);
+
+      mockWebSocket.readyState = 3; // CLOSED
+      listener?.visible();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+      expect(stateHandler.mock.calls[0][0].reason).toBe(
+        TransitionReason.PageVisible,
+      );
+    });
+
+    it("reconnects a connection silent for longer than livenessTimeout", async () => {
+      alwaysConnected = createWithEnvironment(10000);
+      await activateAndConnect();
+
+      // Timers of a hidden page are throttled, so the watchdog may not have fired yet
+      vi.setSystemTime(Date.now() + 20000);
+      listener?.visible();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+    });
+
+    it("keeps a healthy connection when the page becomes visible", async () => {
+      alwaysConnected = createWithEnvironment(10000);
+      await activateAndConnect();
+
+      vi.advanceTimersByTime(5000);
+      listener?.visible();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Connected);
+    });
+
+    it("ignores environment changes after shutdown", async () => {
+      alwaysConnected = createWithEnvironment();
+      await activateAndConnect();
+      const captured = listener;
+
+      alwaysConnected.shutdown();
+      captured?.online();
+      captured?.visible();
+
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+      expect(alwaysConnected.state).toBe(ConnectionState.Disconnected);
+    });
+  });
+
   describe("heartbeat scheduling", () => {
     it("does not send heartbeats when inactive", () => {
       alwaysConnected.activate();
@@ -441,6 +938,131 @@ describe("AlwaysConnected", () => {
     });
   });
 
+  describe("reconnect policy", () => {
+    const createWithPolicy = (reconnectPolicy: ReconnectPolicy) =>
+      new AlwaysConnected(createWebSocketFn, onConnectedFn, sendHeartbeatFn, {
+        heartbeatInterval: 15000,
+        reconnectDelay: 5000,
+        connectionTimeout: 15000,
+        reconnectPolicy,
+      });
+
+    it("passes the attempt number, previous delay and close info", () => {
+      const policy = vi.fn<ReconnectPolicy>().mockReturnValue(1000);
+      alwaysConnected = createWithPolicy(policy);
+      const closeInfo = { code: 1006, reason: "gone", wasClean: false };
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any, closeInfo);
+      vi.advanceTimersByTime(1000);
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+
+      expect(policy).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        previousDelay: 0,
+        lastClose: closeInfo,
+      });
+      expect(policy).toHaveBeenNthCalledWith(2, {
+        attempt: 2,
+        previousDelay: 1000,
+        lastClose: closeInfo,
+      });
+    });
+
+    it("waits for the delay returned by the policy", () => {
+      alwaysConnected = createWithPolicy(() => 300);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+      vi.advanceTimersByTime(299);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("resets the attempt counter once connected", async () => {
+      const policy = vi.fn<ReconnectPolicy>().mockReturnValue(1000);
+      alwaysConnected = createWithPolicy(policy);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+      vi.advanceTimersByTime(1000);
+      alwaysConnected.handleWebSocketOpen();
+      await waitForPendingConnection();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+
+      expect(policy).toHaveBeenLastCalledWith({
+        attempt: 1,
+        previousDelay: 0,
+        lastClose: null,
+      });
+    });
+
+    it("moves to Error and stops when the policy gives up", () => {
+      alwaysConnected = createWithPolicy(() => null);
+      const stateChangeHandler = vi.fn();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+      vi.advanceTimersByTime(60000);
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Error);
+      expect(alwaysConnected.active).toBe(false);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(1);
+      expect(stateChangeHandler.mock.calls.at(-1)?.[0].state).toBe(
+        ConnectionState.Error,
+      );
+    });
+
+    it("can be activated again after giving up", () => {
+      alwaysConnected = createWithPolicy(() => null);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+      alwaysConnected.activate();
+
+      expect(alwaysConnected.state).toBe(ConnectionState.Connecting);
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("logging", () => {
+    it("reports transitions and reconnect scheduling", () => {
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      alwaysConnected = new AlwaysConnected(
+        createWebSocketFn,
+        onConnectedFn,
+        sendHeartbeatFn,
+        {
+          heartbeatInterval: 15000,
+          reconnectDelay: 5000,
+          connectionTimeout: 15000,
+          logger,
+        },
+      );
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+
+      expect(logger.info).toHaveBeenCalledWith("Connection state changed", {
+        from: ConnectionState.Connecting,
+        to: ConnectionState.Reconnecting,
+        reason: TransitionReason.SocketError,
+      });
+      expect(logger.info).toHaveBeenCalledWith("Reconnect scheduled", {
+        attempt: 1,
+        delay: 5000,
+      });
+    });
+  });
+
   describe("state change events", () => {
     it("emits events for real transitions only", () => {
       const stateChangeHandler = vi.fn();
@@ -476,6 +1098,152 @@ describe("AlwaysConnected", () => {
     });
   });
 
+  describe("connection events", () => {
+    it("carries the previous state and the reason of each transition", async () => {
+      const stateChangeHandler = vi.fn();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      await activateAndConnect();
+      alwaysConnected.handleWebSocketHeartbeatTimeout();
+
+      const events = stateChangeHandler.mock.calls.map(([ev]) => [
+        ev.previousState,
+        ev.state,
+        ev.reason,
+      ]);
+      expect(events).toEqual([
+        [
+          ConnectionState.Disconnected,
+          ConnectionState.Connecting,
+          TransitionReason.Activated,
+        ],
+        [
+          ConnectionState.Connecting,
+          ConnectionState.Limbo,
+          TransitionReason.Opened,
+        ],
+        [
+          ConnectionState.Limbo,
+          ConnectionState.Connected,
+          TransitionReason.HandshakeSucceeded,
+        ],
+        [
+          ConnectionState.Connected,
+          ConnectionState.Reconnecting,
+          TransitionReason.HeartbeatTimeout,
+        ],
+      ]);
+    });
+
+    it("carries the URL of the socket", async () => {
+      const stateChangeHandler = vi.fn();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+      Object.assign(mockWebSocket, { url: "wss://primary.test/" });
+
+      await activateAndConnect();
+      alwaysConnected.handleWebSocketHeartbeatTimeout();
+
+      const endpoints = stateChangeHandler.mock.calls.map(
+        ([ev]) => ev.endpoint,
+      );
+      expect(endpoints).toEqual([
+        null,
+        "wss://primary.test/",
+        "wss://primary.test/",
+        "wss://primary.test/",
+      ]);
+      expect(alwaysConnected.endpoint).toBe("wss://primary.test/");
+    });
+
+    it("reconnects a healthy connection on request", async () => {
+      const stateChangeHandler = vi.fn();
+      await activateAndConnect();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      alwaysConnected.reconnect(TransitionReason.Failback);
+      vi.advanceTimersByTime(5000);
+
+      expect(mockWebSocket.close).toHaveBeenCalled();
+      expect(stateChangeHandler.mock.calls[0][0].reason).toBe(
+        TransitionReason.Failback,
+      );
+      expect(createWebSocketFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("dispatches reconnectscheduled with the attempt and delay", () => {
+      const handler = vi.fn();
+      alwaysConnected.addEventListener("reconnectscheduled", handler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0]).toBeInstanceOf(ReconnectScheduledEvent);
+      expect(handler.mock.calls[0][0].attempt).toBe(1);
+      expect(handler.mock.calls[0][0].delay).toBe(5000);
+    });
+
+    it("dispatches closed with the close details of the current socket", () => {
+      const handler = vi.fn();
+      alwaysConnected.addEventListener("closed", handler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketClosed(new MockWebSocket() as any, {
+        code: 1000,
+        reason: "stale",
+        wasClean: true,
+      });
+      alwaysConnected.handleWebSocketClosed(mockWebSocket as any, {
+        code: 1006,
+        reason: "",
+        wasClean: false,
+      });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0]).toMatchObject({
+        code: 1006,
+        reason: "",
+        wasClean: false,
+      });
+      expect(alwaysConnected.state).toBe(ConnectionState.Reconnecting);
+    });
+
+    it("dispatches error for the current socket", () => {
+      const handler = vi.fn();
+      const error = new Event("error");
+      alwaysConnected.addEventListener("error", handler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any, error);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].error).toBe(error);
+    });
+
+    it("reports giving up as the transition reason", () => {
+      alwaysConnected = new AlwaysConnected(
+        createWebSocketFn,
+        onConnectedFn,
+        sendHeartbeatFn,
+        {
+          heartbeatInterval: 15000,
+          reconnectDelay: 5000,
+          connectionTimeout: 15000,
+          reconnectPolicy: () => null,
+        },
+      );
+      const stateChangeHandler = vi.fn();
+      alwaysConnected.addEventListener("statechange", stateChangeHandler);
+
+      alwaysConnected.activate();
+      alwaysConnected.handleWebSocketError(mockWebSocket as any);
+
+      expect(stateChangeHandler.mock.calls.at(-1)?.[0].reason).toBe(
+        TransitionReason.ReconnectGaveUp,
+      );
+    });
+  });
+
   describe("EventTarget integration", () => {
     it("registers and removes listeners", () => {
       const listener = vi.fn();
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { consoleLogger, silentLogger } from "../src/logger";
+
+describe("loggers", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("consoleLogger only writes records at or above the minimum level", () => {
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const logger = consoleLogger("warn");
+
+    logger.debug("ignored");
+    logger.warn("Handshake timed out", { timeout: 100 });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("Handshake timed out", { timeout: 100 });
+  });
+
+  it("silentLogger writes nothing", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    silentLogger.error("ignored");
+
+    expect(error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { jsonCodec } from "../src/codec";
+import { silentLogger } from "../src/logger";
+import { MessageQueue, toReadableStream } from "../src/message-stream";
+import { MockServer } from "../src/testing";
+import { GreatWebSocket } from "../src/websocket";
+
+describe("MessageQueue", () => {
+  const createQueue = (
+    options: ConstructorParameters<typeof MessageQueue>[0] = {},
+  ) => new MessageQueue<number>(options, vi.fn());
+
+  it("hands messages to waiting readers and buffers the rest", async () => {
+    const queue = createQueue();
+    const first = queue.next();
+
+    queue.push(1);
+    queue.push(2);
+
+    await expect(first).resolves.toEqual({ value: 1, done: false });
+    await expect(queue.next()).resolves.toEqual({ value: 2, done: false });
+  });
+
+  it("drains buffered messages before ending", async () => {
+    const queue = createQueue();
+    queue.push(1);
+    const pending = [queue.next(), queue.next()];
+
+    queue.close();
+
+    await expect(Promise.all(pending)).resolves.toEqual([
+      { value: 1, done: false },
+      { value: undefined, done: true },
+    ]);
+  });
+
+  it("drops the oldest message when the buffer is full", async () => {
+    const queue = createQueue({ bufferSize: 2 });
+    queue.push(1);
+    queue.push(2);
+    queue.push(3);
+    queue.close();
+
+    const values: number[] = [];
+    for await (const value of queue) {
+      values.push(value);
+    }
+    expect(values).toEqual([2, 3]);
+  });
+
+  it("drops the newest message when configured", async () => {
+    const queue = createQueue({ bufferSize: 2, overflow: "drop-newest" });
+    queue.push(1);
+    queue.push(2);
+    queue.push(3);
+
+    await expect(queue.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(queue.next()).resolves.toEqual({ value: 2, done: false });
+  });
+
+  it("fails after the buffered messages when configured to error", async () => {
+    const onClose = vi.fn();
+    const queue = new MessageQueue<number>(
+      { bufferSize: 1, overflow: "error" },
+      onClose,
+    );
+    queue.push(1);
+    queue.push(2);
+
+    expect(onClose).toHaveBeenCalledWith(queue);
+    await expect(queue.next()).resolves.toEqual({ value: 1, done: false });
+    await expect(queue.next()).rejects.toMatchObject({
+      name: "MessageBufferOverflowError",
+      bufferSize: 1,
+    });
+    await expect(queue.next()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it("ends when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const queue = createQueue({ signal: controller.signal });
+    queue.push(1);
+    const pending = queue.next();
+    const waiting = queue.next();
+
+    controller.abort();
+
+    await expect(pending).resolves.toEqual({ value: 1, done: false });
+    await expect(waiting).resolves.toEqual({ value: undefined, done: true });
+    expect(queue.closed).toBe(true);
+  });
+
+  it("starts closed with an aborted signal", () => {
+    expect(createQueue({ signal: AbortSignal.abort() }).closed).toBe(true);
+  });
+});
+
+describe("GreatWebSocket message streams", () => {
+  let server: MockServer;
+  let ws: GreatWebSocket<{ n: number }, unknown>;
+  const onMessage = vi.fn();
+
+  beforeEach(async () => {
+    server = new MockServer();
+    ws = new GreatWebSocket<{ n: number }, unknown>(
+      "ws://mock",
+      async () => true,
+      onMessage,
+      () => {},
+      {
+        logger: silentLogger,
+        codec: jsonCodec(),
+        transport: { WebSocket: server.WebSocket },
+      },
+    );
+    ws.activate();
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  afterEach(() => {
+    ws.shutdown();
+  });
+
+  const push = async (...values: number[]) => {
+    for (const n of values) {
+      server.connection?.push(JSON.stringify({ n }));
+    }
+    await server.flush();
+  };
+
+  it("delivers messages to independent consumers until shutdown", async () => {
+    const read = async () => {
+      const values: number[] = [];
+      for await (const message of ws.messages()) {
+        values.push(message.n);
+      }
+      return values;
+    };
+    const first = read();
+    const second = read();
+
+    await push(1, 2);
+    ws.shutdown();
+
+    await expect(first).resolves.toEqual([1, 2]);
+    await expect(second).resolves.toEqual([1, 2]);
+    expect(onMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops delivering to a consumer that left the loop", async () => {
+    const messages = ws.messages();
+    await push(1);
+
+    for await (const message of messages) {
+      expect(message).toEqual({ n: 1 });
+      break;
+    }
+    await push(2);
+
+    await expect(messages.next()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it("ends the iteration when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const messages = ws.messages({ signal: controller.signal });
+    const next = messages.next();
+
+    controller.abort();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it("exposes messages as a ReadableStream", async () => {
+    const reader = ws.stream({ bufferSize: 2 }).getReader();
+
+    await push(1, 2, 3);
+
+    await expect(reader.read()).resolves.toEqual({
+      value: { n: 2 },
+      done: false,
+    });
+    await expect(reader.read()).resolves.toEqual({
+      value: { n: 3 },
+      done: false,
+    });
+
+    ws.shutdown();
+    await expect(reader.read()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it("throws and releases the consumer when ReadableStream is unavailable", () => {
+    vi.stubGlobal("ReadableStream", undefined);
+    const messages = ws.messages();
+    const release = vi.spyOn(messages, "return");
+
+    try {
+      expect(() => toReadableStream(messages)).toThrow(
+        "ReadableStream is not available",
+      );
+      expect(() => ws.stream()).toThrow("ReadableStream is not available");
+      expect(release).toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
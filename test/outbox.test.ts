@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { OutboxOverflowError } from "../src/errors";
+import { Outbox } from "../src/outbox";
+
+describe("Outbox", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it("returns queued messages in order", () => {
+    const outbox = new Outbox({ maxSize: 3 });
+
+    outbox.enqueue("a");
+    outbox.enqueue("b");
+
+    expect(outbox.size).toBe(2);
+    expect(outbox.take(false)).toEqual(["a", "b"]);
+    expect(outbox.size).toBe(0);
+  });
+
+  it("only hands out limbo-allowed messages during limbo", () => {
+    const outbox = new Outbox({ maxSize: 3 });
+
+    outbox.enqueue("a");
+    outbox.enqueue("b", { allowLimbo: true });
+
+    expect(outbox.take(true)).toEqual(["b"]);
+    expect(outbox.take(false)).toEqual(["a"]);
+  });
+
+  it("uses the outbox-wide allowLimbo default", () => {
+    const outbox = new Outbox({ maxSize: 3, allowLimbo: true });
+
+    outbox.enqueue("a");
+
+    expect(outbox.take(true)).toEqual(["a"]);
+  });
+
+  describe("overflow", () => {
+    it("evicts the oldest message by default", () => {
+      const outbox = new Outbox({ maxSize: 2 });
+
+      outbox.enqueue("a");
+      outbox.enqueue("b");
+      const result = outbox.enqueue("c");
+
+      expect(result).toBe(true);
+      expect(outbox.take(false)).toEqual(["b", "c"]);
+    });
+
+    it("drops the new message with drop-newest", () => {
+      const outbox = new Outbox({ maxSize: 1, overflow: "drop-newest" });
+
+      outbox.enqueue("a");
+      const result = outbox.enqueue("b");
+
+      expect(result).toBe(false);
+      expect(outbox.take(false)).toEqual(["a"]);
+    });
+
+    it("throws with reject", () => {
+      const outbox = new Outbox({ maxSize: 1, overflow: "reject" });
+
+      outbox.enqueue("a");
+
+      expect(() => outbox.enqueue("b")).toThrow(OutboxOverflowError);
+    });
+
+    it("makes room by dropping expired messages first", () => {
+      const outbox = new Outbox({ maxSize: 1, overflow: "reject" });
+
+      outbox.enqueue("a", { ttl: 100 });
+      vi.advanceTimersByTime(100);
+
+      expect(outbox.enqueue("b")).toBe(true);
+      expect(outbox.take(false)).toEqual(["b"]);
+    });
+  });
+});
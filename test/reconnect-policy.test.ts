@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  closeCodeClassifier,
+  decorrelatedJitter,
+  exponentialBackoff,
+  fixedDelay,
+} from "../src/reconnect-policy";
+
+const attempt = (n: number, previousDelay = 0) => ({
+  attempt: n,
+  previousDelay,
+  lastClose: null,
+});
+
+describe("reconnect policies", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("fixedDelay()", () => {
+    it("returns the same delay for every attempt", () => {
+      const policy = fixedDelay(2000);
+
+      expect(policy(attempt(1))).toBe(2000);
+      expect(policy(attempt(50))).toBe(2000);
+    });
+
+    it("gives up after maxAttempts", () => {
+      const policy = fixedDelay(2000, { maxAttempts: 2 });
+
+      expect(policy(attempt(2))).toBe(2000);
+      expect(policy(attempt(3))).toBeNull();
+    });
+  });
+
+  describe("exponentialBackoff()", () => {
+    it("grows the delay and caps it at maxDelay", () => {
+      const policy = exponentialBackoff({ initialDelay: 100, maxDelay: 1000 });
+
+      expect(policy(attempt(1))).toBe(100);
+      expect(policy(attempt(2))).toBe(200);
+      expect(policy(attempt(4))).toBe(800);
+      expect(policy(attempt(5))).toBe(1000);
+    });
+
+    it("spreads the delay by the jitter fraction", () => {
+      const policy = exponentialBackoff({ initialDelay: 1000, jitter: 0.5 });
+
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      expect(policy(attempt(1))).toBe(500);
+      vi.spyOn(Math, "random").mockReturnValue(0.999999);
+      expect(policy(attempt(1))).toBe(1500);
+    });
+
+    it("keeps the jittered delay within maxDelay", () => {
+      const policy = exponentialBackoff({
+        initialDelay: 1000,
+        maxDelay: 1000,
+        jitter: 0.5,
+      });
+
+      vi.spyOn(Math, "random").mockReturnValue(0.999999);
+      expect(policy(attempt(3))).toBe(1000);
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      expect(policy(attempt(3))).toBe(500);
+    });
+
+    it("gives up after maxAttempts", () => {
+      const policy = exponentialBackoff({ maxAttempts: 1 });
+
+      expect(policy(attempt(2))).toBeNull();
+    });
+  });
+
+  describe("decorrelatedJitter()", () => {
+    it("stays between baseDelay and three times the previous delay", () => {
+      const policy = decorrelatedJitter({ baseDelay: 100, maxDelay: 10000 });
+
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      expect(policy(attempt(2, 400))).toBe(100);
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      expect(policy(attempt(2, 400))).toBe(1200);
+    });
+
+    it("never exceeds maxDelay", () => {
+      const policy = decorrelatedJitter({ baseDelay: 100, maxDelay: 500 });
+
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      expect(policy(attempt(3, 1000))).toBe(500);
+    });
+  });
+
+  describe("closeCodeClassifier()", () => {
+    const close = (code: number) => ({ code, reason: "", wasClean: true });
+    const classify = closeCodeClassifier({
+      stop: [1008, 4001],
+      retryAfter: { 1013: 30000 },
+    });
+
+    it("stops on fatal codes", () => {
+      expect(classify(close(1008))).toBe("stop");
+      expect(classify(close(4001))).toBe("stop");
+    });
+
+    it("maps codes to a fixed retry delay", () => {
+      expect(classify(close(1013))).toEqual({ retryAfter: 30000 });
+    });
+
+    it("retries everything else", () => {
+      expect(classify(close(1006))).toBe("retry");
+    });
+  });
+});
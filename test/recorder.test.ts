@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConnectionClosedEvent, ReconnectScheduledEvent } from "../src/events";
+import { silentLogger } from "../src/logger";
+import { ConnectionState } from "../src/models";
+import { fixedDelay } from "../src/reconnect-policy";
+import {
+  decodeFrame,
+  encodeFrame,
+  type RecordedEntry,
+  SessionRecorder,
+} from "../src/recorder";
+import type { RemoteCommand } from "../src/rpc";
+import { MockServer, SessionReplayer } from "../src/testing";
+import { GreatWebSocket, type GreatWebSocketOptions } from "../src/websocket";
+
+describe("SessionRecorder", () => {
+  it("keeps the most recent entries", () => {
+    const recorder = new SessionRecorder({ capacity: 2 });
+
+    recorder.recordFrame("outbound", "a");
+    recorder.recordFrame("outbound", "b");
+    recorder.recordFrame("outbound", "c");
+
+    const { entries, dropped } = recorder.snapshot();
+    expect(dropped).toBe(1);
+    expect(
+      entries.map((entry) => entry.type === "outbound" && entry.frame.data),
+    ).toEqual(["b", "c"]);
+  });
+
+  it("records frames through the redaction hook", () => {
+    const recorder = new SessionRecorder({
+      redact: (data, direction) =>
+        direction === "outbound" ? null : String(data).replace(/secret/, "***"),
+    });
+
+    recorder.recordFrame("outbound", "token=secret");
+    recorder.recordFrame("inbound", "hello secret");
+
+    expect(recorder.snapshot().entries).toMatchObject([
+      { type: "outbound", frame: { encoding: "omitted", data: "", size: 12 } },
+      { type: "inbound", frame: { encoding: "text", data: "hello ***" } },
+    ]);
+  });
+
+  it("records lifecycle events of the observed target", () => {
+    const recorder = new SessionRecorder();
+    const target = new EventTarget();
+    recorder.observe(target);
+
+    target.dispatchEvent(new ReconnectScheduledEvent(2, 500));
+    target.dispatchEvent(
+      new ConnectionClosedEvent({ code: 4001, reason: "bye", wasClean: true }),
+    );
+    target.dispatchEvent(new Event("heartbeattimeout"));
+
+    expect(recorder.snapshot().entries).toMatchObject([
+      { type: "reconnectscheduled", attempt: 2, delay: 500 },
+      { type: "closed", code: 4001, reason: "bye", wasClean: true },
+      { type: "heartbeattimeout" },
+    ]);
+  });
+
+  it("round-trips binary frames through base64", () => {
+    const frame = encodeFrame(new Uint8Array([0, 1, 255]));
+
+    expect(frame).toEqual({ encoding: "base64", data: "AAH/", size: 3 });
+    expect(new Uint8Array(decodeFrame(frame) as ArrayBuffer)).toEqual(
+      new Uint8Array([0, 1, 255]),
+    );
+  });
+
+  it("serializes to JSON", () => {
+    const recorder = new SessionRecorder();
+    recorder.record({ type: "socket", url: "ws://mock" });
+
+    const recording = JSON.parse(JSON.stringify(recorder.snapshot()));
+
+    expect(recording).toEqual({
+      version: 1,
+      dropped: 0,
+      entries: [{ type: "socket", url: "ws://mock", time: Date.now() }],
+    });
+  });
+});
+
+class EchoCommand implements RemoteCommand<string> {
+  constructor(private readonly text: string) {}
+
+  execute(ws: GreatWebSocket<unknown, string>) {
+    ws.send(`echo:${this.text}`);
+    return this.text;
+  }
+
+  responseMatches(message: unknown) {
+    return message === `echoed:${this.text}`;
+  }
+
+  handleResponse(message: unknown) {
+    return message;
+  }
+}
+
+describe("Recording a GreatWebSocket session", () => {
+  let subjects: GreatWebSocket[];
+
+  beforeEach(() => {
+    subjects = [];
+  });
+
+  afterEach(() => {
+    for (const subject of subjects) {
+      subject.shutdown();
+    }
+  });
+
+  const connect = (
+    WebSocket: MockServer["WebSocket"],
+    options: GreatWebSocketOptions<unknown, string> = {},
+  ) => {
+    const ws = new GreatWebSocket<unknown, string>(
+      "ws://mock",
+      async () => true,
+      () => {},
+      () => {},
+      {
+        logger: silentLogger,
+        reconnectPolicy: fixedDelay(1000),
+        routeResponses: true,
+        transport: { WebSocket },
+        ...options,
+      },
+    );
+    subjects.push(ws);
+    ws.activate();
+    return ws;
+  };
+
+  const summarize = (entries: RecordedEntry[]) =>
+    entries.map((entry) => {
+      switch (entry.type) {
+        case "state":
+          return `state ${entry.state}`;
+        case "inbound":
+        case "outbound":
+          return `${entry.type} ${entry.frame.data}`;
+        case "closed":
+          return `closed ${entry.code}`;
+        default:
+          return entry.type;
+      }
+    });
+
+  /**
+   * A session with a refused attempt, an RPC and a dropped connection
+   */
+  const recordSession = async () => {
+    const server = new MockServer({ autoAccept: false });
+    server.onConnection = (connection) => {
+      if (server.connections.length === 1) {
+        connection.refuse();
+      } else {
+        connection.accept();
+      }
+    };
+    server.onMessage = (connection, data) =>
+      connection.push(String(data).replace("echo:", "echoed:"));
+
+    const ws = connect(server.WebSocket, { recorder: {} });
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    await server.flush();
+    expect(ws.state).toBe(ConnectionState.Connected);
+
+    const result = ws.call(new EchoCommand("hi"));
+    await server.flush();
+    await expect(result).resolves.toBe("echoed:hi");
+
+    server.connection?.drop();
+    await server.flush();
+
+    return ws.getRecording();
+  };
+
+  it("captures frames, RPC calls and state transitions", async () => {
+    const recording = await recordSession();
+
+    expect(summarize(recording?.entries ?? [])).toEqual([
+      "state connecting",
+      "socket",
+      "error",
+      "state reconnecting",
+      "reconnectscheduled",
+      "socket",
+      "state limbo",
+      "state connected",
+      "outbound echo:hi",
+      "call",
+      "inbound echoed:hi",
+      "rpccomplete",
+      "error",
+      "state reconnecting",
+      "reconnectscheduled",
+      "closed 1006",
+    ]);
+  });
+
+  it("returns null without the recorder option", () => {
+    const server = new MockServer();
+
+    expect(connect(server.WebSocket).getRecording()).toBeNull();
+  });
+
+  it("replays a recording through the mock transport", async () => {
+    const recording = await recordSession();
+    if (recording == null) {
+      throw new Error("Nothing recorded");
+    }
+
+    const replayer = new SessionReplayer(recording);
+    const ws = connect(replayer.WebSocket, { recorder: {} });
+    await replayer.server.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+    await replayer.server.flush();
+
+    const result = ws.call(new EchoCommand("hi"));
+    await replayer.server.flush();
+    await expect(result).resolves.toBe("echoed:hi");
+    await replayer.server.flush();
+
+    expect(replayer.remaining).toBe(0);
+    expect(summarize(ws.getRecording()?.entries ?? [])).toEqual(
+      summarize(recording.entries),
+    );
+    expect(ws.state).toBe(ConnectionState.Reconnecting);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { RttEstimator } from "../src/rtt";
+
+describe("RttEstimator", () => {
+  it("is unknown until the first ping is answered or lost", () => {
+    expect(new RttEstimator().classify()).toBe("unknown");
+  });
+
+  it("smooths samples like RFC 6298", () => {
+    const estimator = new RttEstimator();
+
+    estimator.recordSample(100);
+    estimator.recordSample(200);
+
+    expect(estimator.stats).toEqual({
+      last: 200,
+      smoothed: 112.5,
+      jitter: 62.5,
+      loss: 0,
+    });
+    expect(estimator.classify()).toBe("good");
+  });
+
+  it("is degraded when the smoothed RTT crosses the threshold", () => {
+    const estimator = new RttEstimator();
+
+    estimator.recordSample(400);
+
+    expect(estimator.classify({ rtt: 300 })).toBe("degraded");
+    expect(estimator.classify({ rtt: 500 })).toBe("good");
+  });
+
+  it("is degraded when jitter crosses an explicit threshold", () => {
+    const estimator = new RttEstimator();
+
+    estimator.recordSample(100);
+    estimator.recordSample(500);
+
+    expect(estimator.classify()).toBe("good");
+    expect(estimator.classify({ jitter: 100 })).toBe("degraded");
+  });
+
+  it("computes packet loss over a sliding window", () => {
+    const estimator = new RttEstimator(4);
+
+    estimator.recordLoss();
+    estimator.recordSample(50);
+    expect(estimator.stats.loss).toBe(0.5);
+    expect(estimator.classify()).toBe("degraded");
+
+    for (let i = 0; i < 4; i++) {
+      estimator.recordSample(50);
+    }
+    expect(estimator.stats.loss).toBe(0);
+    expect(estimator.classify()).toBe("good");
+  });
+
+  it("forgets everything on reset", () => {
+    const estimator = new RttEstimator();
+
+    estimator.recordSample(50);
+    estimator.reset();
+
+    expect(estimator.stats.smoothed).toBeNull();
+    expect(estimator.classify()).toBe("unknown");
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { silentLogger } from "../src/logger";
+import { fixedDelay } from "../src/reconnect-policy";
+import { MockServer, type MockWebSocket } from "../src/testing";
+import { GreatWebSocket, type GreatWebSocketOptions } from "../src/websocket";
+
+describe("GreatWebSocket backpressure", () => {
+  let server: MockServer;
+  let ws: GreatWebSocket<string, string>;
+  let socket: MockWebSocket;
+
+  const connect = async (
+    options: GreatWebSocketOptions<string, string> = {},
+  ) => {
+    ws = new GreatWebSocket<string, string>(
+      "ws://mock",
+      async () => true,
+      () => {},
+      () => {},
+      {
+        logger: silentLogger,
+        reconnectPolicy: fixedDelay(1000),
+        backpressure: { highWaterMark: 100, pollInterval: 10 },
+        ...options,
+        transport: {
+          WebSocket: server.WebSocket,
+        },
+      },
+    );
+    ws.activate();
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    socket = ws.websocket as unknown as MockWebSocket;
+  };
+
+  beforeEach(async () => {
+    server = new MockServer();
+    await connect();
+  });
+
+  afterEach(() => {
+    ws.shutdown();
+  });
+
+  it("sends right away while the buffer is below the high-water mark", async () => {
+    await expect(ws.sendAsync("a")).resolves.toBe(true);
+
+    expect(server.sent).toEqual(["a"]);
+    expect(ws.sendQueueLength).toBe(0);
+  });
+
+  it("waits for the buffer to drain and keeps the order", async () => {
+    socket.bufferedAmount = 100;
+    const first = ws.sendAsync("a");
+    ws.send("b");
+    const resolved = vi.fn();
+    void first.then(resolved);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(server.sent).toEqual([]);
+    expect(ws.sendQueueLength).toBe(2);
+    expect(resolved).not.toHaveBeenCalled();
+
+    socket.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(first).resolves.toBe(true);
+    expect(server.sent).toEqual(["a", "b"]);
+    expect(ws.sendQueueLength).toBe(0);
+  });
+
+  it("dispatches drain once the buffer fell below the high-water mark", async () => {
+    const onDrain = vi.fn();
+    ws.addEventListener("drain", onDrain);
+
+    ws.send("a");
+    socket.bufferedAmount = 150;
+    ws.send("b");
+    await vi.advanceTimersByTimeAsync(30);
+    expect(onDrain).not.toHaveBeenCalled();
+
+    socket.bufferedAmount = 99;
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(onDrain).toHaveBeenCalledTimes(1);
+    expect(ws.bufferedAmount).toBe(99);
+  });
+
+  it("does not dispatch drain when the buffer never filled up", async () => {
+    const onDrain = vi.fn();
+    ws.addEventListener("drain", onDrain);
+
+    ws.send("a");
+    await ws.sendAsync("b");
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onDrain).not.toHaveBeenCalled();
+  });
+
+  it("drops waiting messages when the connection is lost without an outbox", async () => {
+    socket.bufferedAmount = 100;
+    const pending = ws.sendAsync("a");
+
+    server.connection?.drop();
+    await server.flush();
+
+    await expect(pending).resolves.toBe(false);
+    expect(ws.sendQueueLength).toBe(0);
+  });
+
+  it("moves waiting messages to the outbox when the connection is lost", async () => {
+    ws.shutdown();
+    await connect({ outbox: { maxSize: 10 } });
+    socket.bufferedAmount = 100;
+    const pending = ws.sendAsync("a");
+
+    server.connection?.drop();
+    await server.flush();
+
+    await expect(pending).resolves.toBe(true);
+    expect(ws.queuedMessages).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await server.flush();
+    expect(server.connection?.sent).toEqual(["a"]);
+  });
+
+  it("resolves waiting messages with false on shutdown", async () => {
+    socket.bufferedAmount = 100;
+    const pending = ws.sendAsync("a");
+
+    ws.shutdown();
+
+    await expect(pending).resolves.toBe(false);
+    expect(server.sent).toEqual([]);
+  });
+
+  it("queues into the outbox while not connected", async () => {
+    ws.shutdown();
+    server = new MockServer({ autoAccept: false });
+    await connect({ outbox: { maxSize: 10 } });
+
+    await expect(ws.sendAsync("a")).resolves.toBe(true);
+    expect(ws.queuedMessages).toBe(1);
+  });
+});
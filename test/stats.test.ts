@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConnectionState } from "../src/models";
+import { StatsCollector } from "../src/stats";
+
+describe("StatsCollector", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("tracks uptime and time spent in each state", () => {
+    const stats = new StatsCollector();
+
+    stats.recordStateChange(ConnectionState.Connecting);
+    vi.advanceTimersByTime(100);
+    stats.recordStateChange(ConnectionState.Limbo);
+    vi.advanceTimersByTime(50);
+    stats.recordStateChange(ConnectionState.Connected);
+    vi.advanceTimersByTime(1000);
+
+    const snapshot = stats.snapshot();
+    expect(snapshot.uptime).toBe(1000);
+    expect(snapshot.connections).toBe(1);
+    expect(snapshot.timeInState).toMatchObject({
+      [ConnectionState.Connecting]: 100,
+      [ConnectionState.Limbo]: 50,
+      [ConnectionState.Connected]: 1000,
+    });
+    expect(snapshot.handshake).toMatchObject({ count: 1, min: 50, max: 50 });
+  });
+
+  it("resets uptime when the connection drops", () => {
+    const stats = new StatsCollector();
+
+    stats.recordStateChange(ConnectionState.Connected);
+    vi.advanceTimersByTime(1000);
+    stats.recordStateChange(ConnectionState.Reconnecting);
+
+    expect(stats.snapshot().uptime).toBe(0);
+  });
+
+  it("counts bytes of text and binary frames", () => {
+    const stats = new StatsCollector();
+
+    stats.recordOutbound("€");
+    stats.recordOutbound(new Uint8Array(4));
+    stats.recordInbound(new ArrayBuffer(8));
+
+    expect(stats.snapshot()).toMatchObject({
+      messagesOut: 2,
+      bytesOut: 7,
+      messagesIn: 1,
+      bytesIn: 8,
+    });
+  });
+
+  it("estimates RPC latency percentiles from histogram buckets", () => {
+    const stats = new StatsCollector();
+
+    for (let i = 0; i < 95; i++) {
+      stats.recordRpc(5, false);
+    }
+    for (let i = 0; i < 5; i++) {
+      stats.recordRpc(700, false);
+    }
+    stats.recordRpc(30000, true);
+
+    const { rpc, rpcFailures } = stats.snapshot();
+    expect(rpcFailures).toBe(1);
+    expect(rpc).toMatchObject({ count: 100, p50: 10, p95: 10, p99: 700 });
+    expect(rpc.buckets.find(({ le }) => le === 1000)?.count).toBe(5);
+    expect(rpc.buckets.at(-1)?.le).toBe(Number.POSITIVE_INFINITY);
+  });
+});
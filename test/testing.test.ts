@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { jsonCodec } from "../src/codec";
+import { JsonRpcClient, JsonRpcRequestCommand } from "../src/json-rpc";
+import { silentLogger } from "../src/logger";
+import { ConnectionState } from "../src/models";
+import { closeCodeClassifier, fixedDelay } from "../src/reconnect-policy";
+import { MockServer } from "../src/testing";
+import { GreatWebSocket, type GreatWebSocketOptions } from "../src/websocket";
+
+describe("MockServer", () => {
+  let server: MockServer;
+
+  beforeEach(() => {
+    server = new MockServer();
+  });
+
+  it("opens connections and records sent frames", async () => {
+    const socket = new server.WebSocket("ws://mock", ["v2", "v1"]);
+    const onopen = vi.fn();
+    socket.onopen = onopen;
+
+    await server.flush();
+
+    expect(onopen).toHaveBeenCalled();
+    expect(socket.readyState).toBe(socket.OPEN);
+    expect(socket.protocol).toBe("v2");
+    socket.send("hello");
+    expect(server.connection?.sent).toEqual(["hello"]);
+    expect(server.sent).toEqual(["hello"]);
+  });
+
+  it("refuses connections with an error and an unclean close", async () => {
+    server = new MockServer({ autoAccept: false });
+    const socket = new server.WebSocket("ws://mock");
+    const events: string[] = [];
+    socket.onerror = () => events.push("error");
+    socket.addEventListener("close", (ev) =>
+      events.push(`close ${(ev as CloseEvent).code}`),
+    );
+
+    const connection = await server.nextConnection();
+    connection.refuse();
+    await server.flush();
+
+    expect(events).toEqual(["error", "close 1006"]);
+    expect(socket.readyState).toBe(socket.CLOSED);
+    expect(server.connection).toBeNull();
+  });
+
+  it("pushes messages and answers frames from onMessage", async () => {
+    server.onMessage = (connection, data) => connection.push(`echo ${data}`);
+    const socket = new server.WebSocket("ws://mock");
+    const received: unknown[] = [];
+    socket.onmessage = (ev) => received.push(ev.data);
+    await server.flush();
+
+    socket.send("ping");
+    await server.flush();
+    server.connection?.push("news");
+    await server.flush();
+
+    expect(received).toEqual(["echo ping", "news"]);
+  });
+
+  it("closes and drops connections with the given codes", async () => {
+    const first = new server.WebSocket("ws://mock");
+    const second = new server.WebSocket("ws://mock");
+    const closes: unknown[] = [];
+    for (const socket of [first, second]) {
+      socket.onclose = ({ code, reason, wasClean }) =>
+        closes.push({ code, reason, wasClean });
+    }
+    await server.flush();
+
+    server.connections[0].close(4001, "unauthorized");
+    server.connections[1].drop();
+    await server.flush();
+
+    expect(closes).toEqual([
+      { code: 4001, reason: "unauthorized", wasClean: true },
+      { code: 1006, reason: "", wasClean: false },
+    ]);
+  });
+
+  it("reports client-initiated closes", async () => {
+    const socket = new server.WebSocket("ws://mock");
+    await server.flush();
+
+    socket.close(1000, "bye");
+    await server.flush();
+
+    expect(server.connections[0].closeInfo).toEqual({
+      code: 1000,
+      reason: "bye",
+      wasClean: true,
+    });
+  });
+
+  it("rethrows errors thrown while delivering from flush()", async () => {
+    const error = new Error("unexpected frame");
+    server.onMessage = () => {
+      throw error;
+    };
+    const socket = new server.WebSocket("ws://mock");
+    await server.flush();
+
+    socket.send("hello");
+
+    await expect(server.flush()).rejects.toBe(error);
+    await expect(server.flush()).resolves.toBeUndefined();
+  });
+
+  it("throws an InvalidStateError when sending while connecting", () => {
+    const socket = new server.WebSocket("ws://mock");
+
+    expect(() => socket.send("hello")).toThrow(
+      expect.objectContaining({ name: "InvalidStateError" }),
+    );
+
+    vi.stubGlobal("DOMException", undefined);
+    try {
+      expect(() => socket.send("hello")).toThrow(
+        expect.objectContaining({ name: "InvalidStateError" }),
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("installs itself as the global WebSocket", () => {
+    const target: { WebSocket?: unknown } = { WebSocket: "original" };
+
+    const restore = server.install(target);
+    expect(target.WebSocket).toBe(server.WebSocket);
+
+    restore();
+    expect(target.WebSocket).toBe("original");
+  });
+});
+
+describe("GreatWebSocket against MockServer", () => {
+  let server: MockServer;
+  let subject: GreatWebSocket<any, any> | null;
+
+  beforeEach(() => {
+    server = new MockServer();
+    subject = null;
+  });
+
+  afterEach(() => {
+    subject?.shutdown();
+  });
+
+  const connect = <In, Out>(
+    onConnectedFn: (ws: WebSocket) => Promise<boolean> = async () => true,
+    options: GreatWebSocketOptions<In, Out> = {},
+  ) => {
+    const ws = new GreatWebSocket<In, Out>(
+      "ws://mock",
+      onConnectedFn,
+      () => {},
+      () => {},
+      {
+        logger: silentLogger,
+        reconnectPolicy: fixedDelay(1000),
+        transport: { WebSocket: server.WebSocket },
+        ...options,
+      },
+    );
+    subject = ws;
+    ws.activate();
+    return ws;
+  };
+
+  it("runs the handshake against the server", async () => {
+    server.onMessage = (connection, data) => {
+      if (data === "auth") {
+        connection.push("ok");
+      }
+    };
+    const ws = connect(
+      (socket) =>
+        new Promise((resolve) => {
+          socket.addEventListener("message", (ev) => resolve(ev.data === "ok"));
+          socket.send("auth");
+        }),
+    );
+
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ws.state).toBe(ConnectionState.Connected);
+    expect(server.sent).toEqual(["auth"]);
+  });
+
+  it("resolves remote commands with the server's response", async () => {
+    server.onMessage = (connection, data) => {
+      const { id, params } = JSON.parse(data as string);
+      connection.push(
+        JSON.stringify({ jsonrpc: "2.0", id, result: params[0] * 2 }),
+      );
+    };
+    const ws = connect(undefined, { codec: jsonCodec(), routeResponses: true });
+    const rpc = new JsonRpcClient(ws);
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const result = rpc.request("double", [21]);
+    await server.flush();
+
+    await expect(result).resolves.toBe(42);
+  });
+
+  it("rejects or defers calls made during limbo", async () => {
+    server.onMessage = (connection, data) => {
+      const { id, params } = JSON.parse(data as string);
+      connection.push(
+        JSON.stringify({ jsonrpc: "2.0", id, result: params[0] }),
+      );
+    };
+    let rejected: Promise<unknown> = Promise.resolve();
+    let deferred: Promise<unknown> = Promise.resolve();
+    const ws = connect(
+      async () => {
+        rejected = rpc.request("echo", [1]).catch((error) => error);
+        deferred = rpc.request("echo", [2], { onConnectionLost: "reexecute" });
+        return true;
+      },
+      { codec: jsonCodec(), routeResponses: true },
+    );
+    const rpc = new JsonRpcClient(ws);
+
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    await server.flush();
+
+    expect(ws.state).toBe(ConnectionState.Connected);
+    await expect(rejected).resolves.toMatchObject({
+      name: "ConnectionLostError",
+    });
+    await expect(deferred).resolves.toBe(2);
+    expect(server.sent).toHaveLength(1);
+  });
+
+  it("connects although the server never answers a replayed subscription", async () => {
+    const ws = connect(undefined, {
+      codec: jsonCodec(),
+      connectionTimeout: 1000,
+    });
+    const onError = vi.fn();
+    ws.addEventListener("subscriptionerror", onError);
+    ws.subscribe(
+      "room:1",
+      new JsonRpcRequestCommand(1, "subscribe", ["room:1"]),
+      new JsonRpcRequestCommand(2, "unsubscribe", ["room:1"]),
+    );
+
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(ws.state).toBe(ConnectionState.Connected);
+    expect(server.connections).toHaveLength(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("reconnects after a drop and stops after a fatal close code", async () => {
+    const ws = connect(undefined, {
+      classifyClose: closeCodeClassifier({ stop: [4001] }),
+    });
+    await server.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection?.drop();
+    await server.flush();
+    expect(ws.state).toBe(ConnectionState.Reconnecting);
+    expect(ws.lastClose).toMatchObject({ code: 1006, wasClean: false });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await server.flush();
+    expect(ws.state).toBe(ConnectionState.Connected);
+    expect(server.connections).toHaveLength(2);
+
+    server.connection?.close(4001, "unauthorized");
+    await server.flush();
+    expect(ws.lastClose).toMatchObject({ code: 4001, reason: "unauthorized" });
+    expect(ws.state).toBe(ConnectionState.Error);
+  });
+});
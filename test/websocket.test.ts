@@ -1,6 +1,8 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { jsonCodec, lengthPrefixedCodec } from "../src/codec";
 import { ConnectionState, type heartbeatFn } from "../src/models";
-import type { RemoteCommand } from "../src/rpc";
+import type { OutboxOptions } from "../src/outbox";
+import type { RemoteCommand, StreamingCommand } from "../src/rpc";
 
 const mockCreateWebSocket = vi.fn<[], WebSocket>();
 
@@ -14,16 +16,23 @@ interface AlwaysConnectedStub {
   handleWebSocketError: ReturnType<typeof vi.fn>;
   handleWebSocketClosed: ReturnType<typeof vi.fn>;
   handleWebSocketHeartbeatTimeout: ReturnType<typeof vi.fn>;
+  handleWebSocketMessage: ReturnType<typeof vi.fn>;
+  reconnect: ReturnType<typeof vi.fn>;
+  dispatchEvent: ReturnType<typeof vi.fn>;
   addEventListener: ReturnType<typeof vi.fn>;
   removeEventListener: ReturnType<typeof vi.fn>;
   __ctorArgs: {
     createWsFactory: () => WebSocket;
-    onConnected: () => Promise<boolean>;
+    onConnected: (
+      ws?: WebSocket,
+      signal?: AbortSignal,
+    ) => Promise<boolean | object>;
     heartbeat: heartbeatFn;
     options: {
       heartbeatInterval: number;
       reconnectDelay: number;
       connectionTimeout: number;
+      livenessTimeout?: number;
     };
   };
 }
@@ -45,6 +54,9 @@ const createAlwaysConnectedStub = (
   handleWebSocketError: vi.fn(),
   handleWebSocketClosed: vi.fn(),
   handleWebSocketHeartbeatTimeout: vi.fn(),
+  handleWebSocketMessage: vi.fn(),
+  reconnect: vi.fn(),
+  dispatchEvent: vi.fn(),
   addEventListener: vi.fn(),
   removeEventListener: vi.fn(),
   __ctorArgs: { createWsFactory, onConnected, heartbeat, options },
@@ -82,6 +94,16 @@ const getLastAlwaysConnectedInstance = () => {
   return instance;
 };
 
+const emitStateChange = (state: ConnectionState) => {
+  const stub = getLastAlwaysConnectedInstance();
+  stub.state = state;
+  for (const [type, listener] of stub.addEventListener.mock.calls) {
+    if (type === "statechange") {
+      listener({ state });
+    }
+  }
+};
+
 describe("GreatWebSocket", () => {
   let GreatWebSocketClass: typeof import("../src/websocket").GreatWebSocket;
   let onConnectedFn: ReturnType<typeof vi.fn>;
@@ -134,8 +156,158 @@ describe("GreatWebSocket", () => {
         "wss://example.test/socket",
         subject,
         expect.any(Function),
+        expect.objectContaining({ warn: expect.any(Function) }),
+        undefined,
+      );
+      expect(onMessageFn).toHaveBeenCalledWith(
+        fakeSocket,
+        mockEvent,
+        "payload",
+      );
+    });
+  });
+
+  describe("transport", () => {
+    it("passes the transport options to the websocket factory", () => {
+      const transport = {
+        WebSocket: vi.fn(),
+        protocols: ["v2.example"],
+        options: { headers: { authorization: "Bearer token" } },
+      };
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { transport },
+      );
+
+      getLastAlwaysConnectedInstance().__ctorArgs.createWsFactory();
+
+      expect(mockCreateWebSocket.mock.calls[0][4]).toBe(transport);
+    });
+  });
+
+  describe("codec", () => {
+    const createWithJsonCodec = () => {
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { codec: jsonCodec() },
+      );
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+      stub.__ctorArgs.createWsFactory();
+      return {
+        stub,
+        onMessageHandler: mockCreateWebSocket.mock.calls[0][2],
+      };
+    };
+
+    it("encodes outgoing messages", () => {
+      // Arrange
+      const { stub } = createWithJsonCodec();
+      stub.state = ConnectionState.Connected;
+
+      // Act
+      subject.send({ type: "hello" });
+
+      // Assert
+      expect(fakeSocket.send).toHaveBeenCalledWith('{"type":"hello"}');
+    });
+
+    it("passes decoded messages to onMessageFn", () => {
+      // Arrange
+      const { onMessageHandler } = createWithJsonCodec();
+      const mockEvent = { data: '{"type":"chat"}' } as MessageEvent;
+
+      // Act
+      onMessageHandler(fakeSocket, mockEvent);
+
+      // Assert
+      expect(onMessageFn).toHaveBeenCalledWith(fakeSocket, mockEvent, {
+        type: "chat",
+      });
+    });
+
+    it("dispatches decodeerror instead of throwing", () => {
+      // Arrange
+      const { stub, onMessageHandler } = createWithJsonCodec();
+
+      // Act
+      const act = () =>
+        onMessageHandler(fakeSocket, { data: "{broken" } as MessageEvent);
+
+      // Assert
+      expect(act).not.toThrow();
+      expect(onMessageFn).not.toHaveBeenCalled();
+      expect(stub.dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "decodeerror", data: "{broken" }),
+      );
+      expect(stub.handleWebSocketMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies the codec binaryType when the socket opens", () => {
+      // Arrange
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { codec: lengthPrefixedCodec() },
+      );
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+
+      // Act
+      subject.handleWebSocketOpen();
+
+      // Assert
+      expect(fakeSocket.binaryType).toBe("arraybuffer");
+      expect(stub.handleWebSocketOpen).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("liveness", () => {
+    it("reports every inbound message to AlwaysConnected by default", () => {
+      // Arrange
+      const stub = getLastAlwaysConnectedInstance();
+      stub.__ctorArgs.createWsFactory();
+      const onMessageHandler = mockCreateWebSocket.mock.calls[0][2];
+
+      // Act
+      onMessageHandler(fakeSocket, { data: "anything" } as MessageEvent);
+
+      // Assert
+      expect(stub.handleWebSocketMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("only reports heartbeats when isHeartbeat is provided", () => {
+      // Arrange
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        {
+          livenessTimeout: 30000,
+          isHeartbeat: (ev) => ev.data === "pong",
+        },
       );
-      expect(onMessageFn).toHaveBeenCalledWith(fakeSocket, mockEvent);
+      const stub = getLastAlwaysConnectedInstance();
+      stub.__ctorArgs.createWsFactory();
+      const onMessageHandler = mockCreateWebSocket.mock.calls[0][2];
+
+      // Act
+      onMessageHandler(fakeSocket, { data: "chat" } as MessageEvent);
+      onMessageHandler(fakeSocket, { data: "pong" } as MessageEvent);
+
+      // Assert
+      expect(stub.__ctorArgs.options.livenessTimeout).toBe(30000);
+      expect(stub.handleWebSocketMessage).toHaveBeenCalledTimes(1);
+      expect(onMessageFn).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -144,14 +316,16 @@ describe("GreatWebSocket", () => {
       // Arrange
       const stub = getLastAlwaysConnectedInstance();
       const listener = vi.fn();
+      const closeInfo = { code: 1001, reason: "bye", wasClean: true };
+      const error = new Event("error");
 
       // Act
       subject.activate();
       subject.shutdown();
       subject.handleWebSocketHeartbeatTimeout();
       subject.handleWebSocketOpen();
-      subject.handleWebSocketError(fakeSocket);
-      subject.handleWebSocketClosed(fakeSocket);
+      subject.handleWebSocketError(fakeSocket, error);
+      subject.handleWebSocketClosed(fakeSocket, closeInfo);
       subject.addEventListener("statechange", listener);
       subject.removeEventListener("statechange", listener);
 
@@ -160,8 +334,11 @@ describe("GreatWebSocket", () => {
       expect(stub.shutdown).toHaveBeenCalledTimes(1);
       expect(stub.handleWebSocketHeartbeatTimeout).toHaveBeenCalledTimes(1);
       expect(stub.handleWebSocketOpen).toHaveBeenCalledTimes(1);
-      expect(stub.handleWebSocketError).toHaveBeenCalledWith(fakeSocket);
-      expect(stub.handleWebSocketClosed).toHaveBeenCalledWith(fakeSocket);
+      expect(stub.handleWebSocketError).toHaveBeenCalledWith(fakeSocket, error);
+      expect(stub.handleWebSocketClosed).toHaveBeenCalledWith(
+        fakeSocket,
+        closeInfo,
+      );
       expect(stub.addEventListener).toHaveBeenCalledWith(
         "statechange",
         listener,
@@ -222,7 +399,102 @@ describe("GreatWebSocket", () => {
     });
   });
 
+  describe("outbox", () => {
+    const createWithOutbox = (outbox: OutboxOptions) => {
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { outbox },
+      );
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+      return stub;
+    };
+
+    it("queues while disconnected and flushes in order once connected", () => {
+      // Arrange
+      createWithOutbox({ maxSize: 10 });
+
+      // Act
+      const results = [subject.send("a"), subject.send("b")];
+      const queued = subject.queuedMessages;
+      emitStateChange(ConnectionState.Connected);
+
+      // Assert
+      expect(results).toEqual([true, true]);
+      expect(queued).toBe(2);
+      expect(subject.queuedMessages).toBe(0);
+      expect(vi.mocked(fakeSocket.send).mock.calls).toEqual([["a"], ["b"]]);
+    });
+
+    it("holds messages during Limbo unless allowed", () => {
+      // Arrange
+      createWithOutbox({ maxSize: 10 });
+      subject.send("later");
+      subject.send("handshake", { allowLimbo: true });
+
+      // Act
+      emitStateChange(ConnectionState.Limbo);
+      const sentInLimbo = vi.mocked(fakeSocket.send).mock.calls.slice();
+      const directInLimbo = subject.send("hello", { allowLimbo: true });
+      emitStateChange(ConnectionState.Connected);
+
+      // Assert
+      expect(sentInLimbo).toEqual([["handshake"]]);
+      expect(directInLimbo).toBe(true);
+      expect(vi.mocked(fakeSocket.send).mock.calls).toEqual([
+        ["handshake"],
+        ["hello"],
+        ["later"],
+      ]);
+    });
+
+    it("drops expired messages", () => {
+      // Arrange
+      createWithOutbox({ maxSize: 10, ttl: 1000 });
+      subject.send("stale");
+      subject.send("fresh", { ttl: 5000 });
+
+      // Act
+      vi.advanceTimersByTime(2000);
+      emitStateChange(ConnectionState.Connected);
+
+      // Assert
+      expect(vi.mocked(fakeSocket.send).mock.calls).toEqual([["fresh"]]);
+    });
+
+    it("applies the overflow strategy", () => {
+      // Arrange
+      createWithOutbox({ maxSize: 1, overflow: "reject" });
+      subject.send("first");
+
+      // Act
+      const act = () => subject.send("second");
+
+      // Assert
+      expect(act).toThrow("Outbox is full");
+    });
+
+    it("is cleared on shutdown", () => {
+      // Arrange
+      createWithOutbox({ maxSize: 10 });
+      subject.send("a");
+
+      // Act
+      subject.shutdown();
+
+      // Assert
+      expect(subject.queuedMessages).toBe(0);
+    });
+  });
+
   describe("RPC handling", () => {
+    beforeEach(() => {
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+    });
+
     it("executes commands and resolves when a matching response arrives", async () => {
       // Arrange
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
@@ -277,5 +549,1163 @@ describe("GreatWebSocket", () => {
 
       consoleSpy.mockRestore();
     });
+
+    it("rejects with RpcTimeoutError and forgets the command on timeout", async () => {
+      // Arrange
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-3"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn(),
+      };
+      const callPromise = subject.call(command, { timeout: 1000 });
+      const assertion = expect(callPromise).rejects.toMatchObject({
+        name: "RpcTimeoutError",
+      });
+
+      // Act
+      vi.advanceTimersByTime(1000);
+      await assertion;
+      const lateResult = subject.tryHandleAsControlMessage({ id: "rpc-3" });
+
+      // Assert
+      expect(lateResult).toBe(false);
+      expect(command.handleResponse).not.toHaveBeenCalled();
+    });
+
+    it("applies the default rpcTimeout from options", async () => {
+      // Arrange
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { rpcTimeout: 500 },
+      );
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-4"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn(),
+      };
+      const callPromise = subject.call(command);
+      const assertion = expect(callPromise).rejects.toMatchObject({
+        name: "RpcTimeoutError",
+        timeout: 500,
+      });
+
+      // Act
+      vi.advanceTimersByTime(500);
+
+      // Assert
+      await assertion;
+    });
+
+    it("does not time out once the response arrived", async () => {
+      // Arrange
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-5"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn().mockReturnValue("done"),
+      };
+      const callPromise = subject.call(command, { timeout: 1000 });
+
+      // Act
+      subject.tryHandleAsControlMessage({ id: "rpc-5" });
+      vi.advanceTimersByTime(1000);
+
+      // Assert
+      await expect(callPromise).resolves.toBe("done");
+    });
+
+    it("rejects with RpcAbortedError when the signal aborts", async () => {
+      // Arrange
+      const controller = new AbortController();
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-6"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn(),
+      };
+      const callPromise = subject.call(command, { signal: controller.signal });
+
+      // Act
+      controller.abort("user left");
+
+      // Assert
+      await expect(callPromise).rejects.toMatchObject({
+        name: "RpcAbortedError",
+        reason: "user left",
+      });
+      expect(subject.tryHandleAsControlMessage({ id: "rpc-6" })).toBe(false);
+    });
+
+    it("does not execute a command whose signal is already aborted", async () => {
+      // Arrange
+      const command: RemoteCommand = {
+        execute: vi.fn(),
+        responseMatches: vi.fn(),
+        handleResponse: vi.fn(),
+      };
+
+      // Act
+      const callPromise = subject.call(command, {
+        signal: AbortSignal.abort(),
+      });
+
+      // Assert
+      await expect(callPromise).rejects.toMatchObject({
+        name: "RpcAbortedError",
+      });
+      expect(command.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("streaming RPC", () => {
+    beforeEach(() => {
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+    });
+
+    const createStreamingCommand = (): StreamingCommand => ({
+      execute: vi.fn().mockReturnValue("job-1"),
+      responseMatches: vi.fn(
+        (message) => (message as { id?: string }).id === "job-1",
+      ),
+      isFinal: vi.fn((message) => "result" in (message as object)),
+      handleProgress: vi.fn((message) => (message as { done: number }).done),
+      handleResponse: vi.fn(
+        (message) => (message as { result: string }).result,
+      ),
+      cancel: vi.fn(),
+    });
+
+    it("reports progress and stays pending until the final message", async () => {
+      // Arrange
+      const command = createStreamingCommand();
+      const onProgress = vi.fn();
+      const callPromise = subject.call(command, { onProgress });
+
+      // Act
+      const handled = [
+        subject.tryHandleAsControlMessage({ id: "job-1", done: 10 }),
+        subject.tryHandleAsControlMessage({ id: "job-1", done: 90 }),
+        subject.tryHandleAsControlMessage({ id: "job-1", result: "file.csv" }),
+        subject.tryHandleAsControlMessage({ id: "job-1", done: 100 }),
+      ];
+
+      // Assert
+      expect(handled).toEqual([true, true, true, false]);
+      expect(onProgress.mock.calls).toEqual([[10], [90]]);
+      await expect(callPromise).resolves.toBe("file.csv");
+    });
+
+    it("iterates over progress and resolves the result", async () => {
+      // Arrange
+      const command = createStreamingCommand();
+      const job = subject.callStream<number, string>(command);
+
+      // Act
+      subject.tryHandleAsControlMessage({ id: "job-1", done: 50 });
+      subject.tryHandleAsControlMessage({ id: "job-1", result: "file.csv" });
+      const progress: number[] = [];
+      for await (const done of job) {
+        progress.push(done);
+      }
+
+      // Assert
+      expect(progress).toEqual([50]);
+      await expect(job.result).resolves.toBe("file.csv");
+      expect(command.cancel).not.toHaveBeenCalled();
+    });
+
+    it("sends the cancel message when aborted while connected", async () => {
+      // Arrange
+      emitStateChange(ConnectionState.Connected);
+      const controller = new AbortController();
+      const command = createStreamingCommand();
+      const callPromise = subject.call(command, { signal: controller.signal });
+
+      // Act
+      controller.abort();
+
+      // Assert
+      await expect(callPromise).rejects.toMatchObject({
+        name: "RpcAbortedError",
+      });
+      expect(command.cancel).toHaveBeenCalledWith(subject);
+    });
+
+    it("sends the cancel message on timeout", async () => {
+      // Arrange
+      emitStateChange(ConnectionState.Connected);
+      const command = createStreamingCommand();
+      const callPromise = subject.call(command, { timeout: 1000 });
+      const assertion = expect(callPromise).rejects.toMatchObject({
+        name: "RpcTimeoutError",
+      });
+
+      // Act
+      vi.advanceTimersByTime(1000);
+
+      // Assert
+      await assertion;
+      expect(command.cancel).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not send the cancel message while disconnected", async () => {
+      // Arrange
+      emitStateChange(ConnectionState.Reconnecting);
+      const command = createStreamingCommand();
+      const job = subject.callStream(command, {
+        onConnectionLost: "reexecute",
+      });
+
+      // Act
+      job.cancel("not needed");
+
+      // Assert
+      await expect(job.result).rejects.toMatchObject({
+        name: "RpcAbortedError",
+        reason: "not needed",
+      });
+      expect(command.cancel).not.toHaveBeenCalled();
+    });
+
+    it("cancels the call when the loop exits early", async () => {
+      // Arrange
+      emitStateChange(ConnectionState.Connected);
+      const command = createStreamingCommand();
+      const job = subject.callStream(command);
+      subject.tryHandleAsControlMessage({ id: "job-1", done: 10 });
+
+      // Act
+      for await (const _ of job) {
+        break;
+      }
+
+      // Assert
+      await expect(job.result).rejects.toMatchObject({
+        name: "RpcAbortedError",
+      });
+      expect(command.cancel).toHaveBeenCalled();
+      expect(
+        subject.tryHandleAsControlMessage({ id: "job-1", result: "late" }),
+      ).toBe(false);
+    });
+
+    it("throws from the loop when the call fails", async () => {
+      // Arrange
+      const command = createStreamingCommand();
+      vi.mocked(command.handleResponse).mockImplementation(() => {
+        throw new Error("export failed");
+      });
+      const job = subject.callStream(command);
+
+      // Act
+      subject.tryHandleAsControlMessage({ id: "job-1", done: 10 });
+      subject.tryHandleAsControlMessage({ id: "job-1", result: null });
+      const progress: unknown[] = [];
+      const loop = (async () => {
+        for await (const done of job) {
+          progress.push(done);
+        }
+      })();
+
+      // Assert
+      await expect(loop).rejects.toThrow("export failed");
+      await expect(job.result).rejects.toThrow("export failed");
+      expect(progress).toEqual([10]);
+    });
+  });
+
+  describe("response routing", () => {
+    beforeEach(() => {
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+    });
+
+    it("rejects the call when handleResponse throws", async () => {
+      // Arrange
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-1"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn(() => {
+          throw new Error("server said no");
+        }),
+      };
+      const callPromise = subject.call(command);
+
+      // Act
+      const handled = subject.tryHandleAsControlMessage({ id: "rpc-1" });
+
+      // Assert
+      expect(handled).toBe(true);
+      await expect(callPromise).rejects.toThrow("server said no");
+    });
+
+    it("routes responses before onMessageFn when routeResponses is set", async () => {
+      // Arrange
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { codec: jsonCodec(), routeResponses: true },
+      );
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+      getLastAlwaysConnectedInstance().__ctorArgs.createWsFactory();
+      const onMessageHandler = mockCreateWebSocket.mock.calls[0][2];
+      const command: RemoteCommand<unknown> = {
+        execute: vi.fn().mockReturnValue("rpc-2"),
+        responseMatches: vi.fn(
+          (message) => (message as { id?: string }).id === "rpc-2",
+        ),
+        handleResponse: vi.fn().mockReturnValue("done"),
+      };
+      const callPromise = subject.call(command);
+
+      // Act
+      onMessageHandler(fakeSocket, { data: '{"id":"rpc-2"}' } as MessageEvent);
+      onMessageHandler(fakeSocket, { data: '{"type":"chat"}' } as MessageEvent);
+
+      // Assert
+      await expect(callPromise).resolves.toBe("done");
+      expect(onMessageFn).toHaveBeenCalledTimes(1);
+      expect(onMessageFn.mock.calls[0][2]).toEqual({ type: "chat" });
+    });
+  });
+
+  describe("subscriptions", () => {
+    const createSubscribeCommand = (id: string, response: unknown = "ok") => {
+      const command: RemoteCommand = {
+        execute: vi.fn((ws) => {
+          ws.send(id);
+          return id;
+        }),
+        responseMatches: vi.fn(
+          (message) => (message as { id?: string }).id === id,
+        ),
+        handleResponse: vi.fn((message) => {
+          if ((message as { error?: string }).error != null) {
+            throw new Error((message as { error: string }).error);
+          }
+          return response;
+        }),
+      };
+      return command;
+    };
+
+    const enterLimbo = () => {
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+      emitStateChange(ConnectionState.Limbo);
+      return stub.__ctorArgs.onConnected();
+    };
+
+    it("replays subscriptions in Limbo after the user handshake", async () => {
+      // Arrange
+      const command = createSubscribeCommand("sub-1");
+      subject.subscribe("room:1", command, createSubscribeCommand("unsub-1"));
+
+      // Act
+      const handshake = enterLimbo();
+      await Promise.resolve();
+      await Promise.resolve();
+      subject.tryHandleAsControlMessage({ id: "sub-1" });
+
+      // Assert
+      await expect(handshake).resolves.toBe(true);
+      expect(onConnectedFn).toHaveBeenCalledTimes(1);
+      expect(command.execute).toHaveBeenCalledTimes(1);
+      expect(fakeSocket.send).toHaveBeenCalledWith("sub-1");
+    });
+
+    it("passes the socket and signal through and keeps failure outcomes", async () => {
+      // Arrange
+      const signal = new AbortController().signal;
+      const failure = { outcome: "fatal" as const, reason: "banned" };
+      onConnectedFn.mockResolvedValue(failure);
+      const command = createSubscribeCommand("sub-1");
+      subject.subscribe("room:1", command, createSubscribeCommand("unsub-1"));
+
+      // Act
+      const result =
+        await getLastAlwaysConnectedInstance().__ctorArgs.onConnected(
+          fakeSocket,
+          signal,
+        );
+
+      // Assert
+      expect(onConnectedFn).toHaveBeenCalledWith(fakeSocket, signal);
+      expect(result).toBe(failure);
+      expect(command.execute).not.toHaveBeenCalled();
+    });
+
+    it("does not replay when the user handshake fails", async () => {
+      // Arrange
+      onConnectedFn.mockResolvedValue(false);
+      const command = createSubscribeCommand("sub-1");
+      subject.subscribe("room:1", command, createSubscribeCommand("unsub-1"));
+
+      // Act
+      const result = await enterLimbo();
+
+      // Assert
+      expect(result).toBe(false);
+      expect(command.execute).not.toHaveBeenCalled();
+    });
+
+    it("reports failures per subscription without failing the handshake", async () => {
+      // Arrange
+      const stub = getLastAlwaysConnectedInstance();
+      subject.subscribe(
+        "room:1",
+        createSubscribeCommand("sub-1"),
+        createSubscribeCommand("unsub-1"),
+      );
+      subject.subscribe(
+        "room:2",
+        createSubscribeCommand("sub-2"),
+        createSubscribeCommand("unsub-2"),
+      );
+
+      // Act
+      const handshake = enterLimbo();
+      await Promise.resolve();
+      await Promise.resolve();
+      subject.tryHandleAsControlMessage({ id: "sub-1", error: "forbidden" });
+      subject.tryHandleAsControlMessage({ id: "sub-2" });
+
+      // Assert
+      await expect(handshake).resolves.toBe(true);
+      const errorEvents = stub.dispatchEvent.mock.calls
+        .map(([ev]) => ev)
+        .filter((ev) => ev.type === "subscriptionerror");
+      expect(errorEvents).toHaveLength(1);
+      expect(errorEvents[0].key).toBe("room:1");
+    });
+
+    it("times out a replay the server never answers without failing the handshake", async () => {
+      // Arrange
+      const stub = getLastAlwaysConnectedInstance();
+      subject.subscribe(
+        "room:1",
+        createSubscribeCommand("sub-1"),
+        createSubscribeCommand("unsub-1"),
+      );
+
+      // Act
+      const handshake = enterLimbo();
+      await vi.advanceTimersByTimeAsync(7500);
+
+      // Assert
+      await expect(handshake).resolves.toBe(true);
+      const errorEvents = stub.dispatchEvent.mock.calls
+        .map(([ev]) => ev)
+        .filter((ev) => ev.type === "subscriptionerror");
+      expect(errorEvents).toHaveLength(1);
+      expect(errorEvents[0].error).toMatchObject({ name: "RpcTimeoutError" });
+    });
+
+    it("does not retry a failed replay once connected", async () => {
+      // Arrange
+      const stub = getLastAlwaysConnectedInstance();
+      const command = createSubscribeCommand("sub-1");
+      subject.subscribe("room:1", command, createSubscribeCommand("unsub-1"));
+
+      // Act
+      const handshake = enterLimbo();
+      await Promise.resolve();
+      await Promise.resolve();
+      subject.tryHandleAsControlMessage({ id: "sub-1", error: "forbidden" });
+      await handshake;
+      await Promise.resolve();
+      emitStateChange(ConnectionState.Connected);
+
+      // Assert
+      expect(command.execute).toHaveBeenCalledTimes(1);
+      const errorEvents = stub.dispatchEvent.mock.calls
+        .map(([ev]) => ev)
+        .filter((ev) => ev.type === "subscriptionerror");
+      expect(errorEvents).toHaveLength(1);
+    });
+
+    it("reports a throwing factory and replays it on the next connection", async () => {
+      // Arrange
+      const stub = getLastAlwaysConnectedInstance();
+      const error = new Error("no token");
+      const factory = vi
+        .fn()
+        .mockImplementationOnce(() => {
+          throw error;
+        })
+        .mockImplementation(() => createSubscribeCommand("sub-1"));
+      subject.subscribe("room:1", factory, createSubscribeCommand("unsub-1"));
+
+      // Act
+      await enterLimbo();
+      emitStateChange(ConnectionState.Connected);
+      emitStateChange(ConnectionState.Reconnecting);
+      void enterLimbo();
+      await Promise.resolve();
+
+      // Assert
+      const errorEvents = stub.dispatchEvent.mock.calls
+        .map(([ev]) => ev)
+        .filter((ev) => ev.type === "subscriptionerror");
+      expect(errorEvents).toHaveLength(1);
+      expect(errorEvents[0].error).toBe(error);
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+
+    it("creates fresh commands from factories on every reconnect", async () => {
+      // Arrange
+      let counter = 0;
+      const factory = vi.fn(() => createSubscribeCommand(`sub-${++counter}`));
+      subject.subscribe("room:1", factory, createSubscribeCommand("unsub-1"));
+
+      // Act
+      const first = enterLimbo();
+      await Promise.resolve();
+      await Promise.resolve();
+      subject.tryHandleAsControlMessage({ id: "sub-1" });
+      await first;
+      emitStateChange(ConnectionState.Connected);
+      emitStateChange(ConnectionState.Reconnecting);
+      const second = enterLimbo();
+      await Promise.resolve();
+      await Promise.resolve();
+      subject.tryHandleAsControlMessage({ id: "sub-2" });
+      await second;
+
+      // Assert
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+
+    it("subscribes immediately and unsubscribes when connected", async () => {
+      // Arrange
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+      stub.state = ConnectionState.Connected;
+      const subscribeCommand = createSubscribeCommand("sub-1");
+      const unsubscribeCommand = createSubscribeCommand("unsub-1");
+
+      // Act
+      const subscription = subject.subscribe(
+        "room:1",
+        subscribeCommand,
+        unsubscribeCommand,
+      );
+      subject.tryHandleAsControlMessage({ id: "sub-1" });
+      await Promise.resolve();
+      const unsubscribed = subscription.unsubscribe();
+      subject.tryHandleAsControlMessage({ id: "unsub-1" });
+      await unsubscribed;
+
+      // Assert
+      expect(subscribeCommand.execute).toHaveBeenCalledTimes(1);
+      expect(unsubscribeCommand.execute).toHaveBeenCalledTimes(1);
+      expect(subject.subscriptions).toEqual([]);
+    });
+
+    it("rejects duplicate keys", () => {
+      // Arrange
+      const command = createSubscribeCommand("sub-1");
+      subject.subscribe("room:1", command, command);
+
+      // Act
+      const act = () => subject.subscribe("room:1", command, command);
+
+      // Assert
+      expect(act).toThrow("Already subscribed: room:1");
+    });
+  });
+
+  describe("failover", () => {
+    const createWithEndpoints = (failover = {}) => {
+      subject = new GreatWebSocketClass(
+        ["wss://primary.test", "wss://secondary.test"],
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { failover },
+      );
+      return getLastAlwaysConnectedInstance();
+    };
+
+    const connectedUrls = () =>
+      mockCreateWebSocket.mock.calls.map(([url]) => url);
+
+    it("prefers the first endpoint", () => {
+      const stub = createWithEndpoints();
+
+      stub.__ctorArgs.createWsFactory();
+      emitStateChange(ConnectionState.Connected);
+      emitStateChange(ConnectionState.Reconnecting);
+      stub.__ctorArgs.createWsFactory();
+
+      expect(connectedUrls()).toEqual([
+        "wss://primary.test",
+        "wss://primary.test",
+      ]);
+    });
+
+    it("fails over to the next endpoint when a connection attempt fails", () => {
+      const stub = createWithEndpoints();
+
+      stub.__ctorArgs.createWsFactory();
+      emitStateChange(ConnectionState.Reconnecting);
+      stub.__ctorArgs.createWsFactory();
+
+      expect(connectedUrls()).toEqual([
+        "wss://primary.test",
+        "wss://secondary.test",
+      ]);
+      expect(subject.endpoints[0]).toMatchObject({
+        url: "wss://primary.test",
+        failures: 1,
+      });
+    });
+
+    it("counts attempts failing while already reconnecting", () => {
+      const stub = createWithEndpoints({ cooldown: 0 });
+
+      stub.__ctorArgs.createWsFactory();
+      emitStateChange(ConnectionState.Reconnecting);
+      stub.__ctorArgs.createWsFactory();
+      stub.__ctorArgs.createWsFactory();
+
+      expect(subject.endpoints.map(({ failures }) => failures)).toEqual([2, 0]);
+    });
+
+    it("resolves a URL provider before every connection attempt", async () => {
+      let token = 0;
+      const provider = vi.fn(
+        async () => `wss://example.test/?token=${++token}`,
+      );
+      subject = new GreatWebSocketClass(
+        provider,
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+      );
+      const stub = getLastAlwaysConnectedInstance();
+
+      await stub.__ctorArgs.createWsFactory();
+      await stub.__ctorArgs.createWsFactory();
+
+      expect(connectedUrls()).toEqual([
+        "wss://example.test/?token=1",
+        "wss://example.test/?token=2",
+      ]);
+    });
+
+    it("mixes URL providers and fixed URLs in the failover list", async () => {
+      subject = new GreatWebSocketClass(
+        [() => Promise.reject(new Error("auth down")), "wss://fallback.test"],
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+      );
+      const next = getLastAlwaysConnectedInstance();
+
+      await expect(next.__ctorArgs.createWsFactory()).rejects.toThrow(
+        "auth down",
+      );
+      emitStateChange(ConnectionState.Reconnecting);
+      next.__ctorArgs.createWsFactory();
+
+      expect(connectedUrls()).toEqual(["wss://fallback.test"]);
+    });
+
+    it("rotates endpoints with the round-robin strategy", () => {
+      const stub = createWithEndpoints({ strategy: "round-robin" });
+
+      for (let i = 0; i < 3; i++) {
+        stub.__ctorArgs.createWsFactory();
+        emitStateChange(ConnectionState.Connected);
+        emitStateChange(ConnectionState.Reconnecting);
+      }
+
+      expect(connectedUrls()).toEqual([
+        "wss://primary.test",
+        "wss://secondary.test",
+        "wss://primary.test",
+      ]);
+    });
+
+    it("fails back to the preferred endpoint once it recovers", () => {
+      vi.useFakeTimers();
+      try {
+        const stub = createWithEndpoints({
+          cooldown: 30000,
+          failbackAfter: 10000,
+        });
+
+        stub.__ctorArgs.createWsFactory();
+        emitStateChange(ConnectionState.Reconnecting);
+        stub.__ctorArgs.createWsFactory();
+        emitStateChange(ConnectionState.Connected);
+
+        vi.advanceTimersByTime(20000);
+        expect(stub.reconnect).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(10000);
+        expect(stub.reconnect).toHaveBeenCalledWith("failback");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("does not fail back after the connection drops", () => {
+      vi.useFakeTimers();
+      try {
+        const stub = createWithEndpoints({ cooldown: 0, failbackAfter: 10000 });
+
+        stub.__ctorArgs.createWsFactory();
+        emitStateChange(ConnectionState.Reconnecting);
+        stub.__ctorArgs.createWsFactory();
+        emitStateChange(ConnectionState.Connected);
+        emitStateChange(ConnectionState.Reconnecting);
+        vi.advanceTimersByTime(10000);
+
+        expect(stub.reconnect).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("events", () => {
+    beforeEach(() => {
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+    });
+
+    const dispatchedOfType = (type: string) =>
+      getLastAlwaysConnectedInstance()
+        .dispatchEvent.mock.calls.map(([ev]) => ev)
+        .filter((ev) => ev.type === type);
+
+    it("dispatches message for messages that are not RPC responses", () => {
+      // Arrange
+      getLastAlwaysConnectedInstance().__ctorArgs.createWsFactory();
+      const onMessageHandler = mockCreateWebSocket.mock.calls[0][2];
+
+      // Act
+      onMessageHandler(fakeSocket, { data: "hello" } as MessageEvent);
+
+      // Assert
+      const events = dispatchedOfType("message");
+      expect(events).toHaveLength(1);
+      expect(events[0].message).toBe("hello");
+      expect(events[0].data).toBe("hello");
+    });
+
+    it("dispatches rpccomplete for successful and failed calls", async () => {
+      // Arrange
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-1"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn().mockReturnValue("done"),
+      };
+      const succeeded = subject.call(command);
+      const timedOut = subject.call(
+        { ...command, responseMatches: vi.fn().mockReturnValue(false) },
+        { timeout: 100 },
+      );
+
+      // Act
+      vi.advanceTimersByTime(50);
+      subject.tryHandleAsControlMessage({ id: "rpc-1" });
+      vi.advanceTimersByTime(50);
+      await succeeded;
+      await timedOut.catch(() => {});
+
+      // Assert
+      const events = dispatchedOfType("rpccomplete");
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        command,
+        rpcId: "rpc-1",
+        elapsed: 50,
+        succeeded: true,
+      });
+      expect(events[1].succeeded).toBe(false);
+      expect(events[1].error).toMatchObject({ name: "RpcTimeoutError" });
+    });
+  });
+
+  describe("ping", () => {
+    const createWithPing = () => {
+      subject = new GreatWebSocketClass<
+        { pong?: number; data?: string },
+        { ping: number }
+      >(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        {
+          codec: {
+            encode: (message) => message as unknown as string,
+            decode: (data) => data as { pong?: number },
+          },
+          ping: {
+            interval: 1000,
+            createPing: (id) => ({ ping: id }),
+            matchPong: (message) => message.pong ?? null,
+            thresholds: { rtt: 300, loss: 0.4 },
+          },
+        },
+      );
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+      stub.__ctorArgs.createWsFactory();
+      const receive = (message: object) =>
+        mockCreateWebSocket.mock.calls[0][2](fakeSocket, {
+          data: message,
+        } as MessageEvent);
+      emitStateChange(ConnectionState.Connected);
+      return { stub, receive };
+    };
+
+    const qualityEvents = (stub: AlwaysConnectedStub) =>
+      stub.dispatchEvent.mock.calls
+        .filter(([ev]) => ev.type === "qualitychange")
+        .map(([ev]) => ev.quality);
+
+    it("sends pings while connected and measures the round trip", () => {
+      const { stub, receive } = createWithPing();
+
+      vi.advanceTimersByTime(1000);
+      expect(fakeSocket.send).toHaveBeenCalledWith({ ping: 0 });
+
+      vi.advanceTimersByTime(120);
+      receive({ pong: 0 });
+
+      expect(subject.rtt).toMatchObject({ last: 120, smoothed: 120 });
+      expect(subject.quality).toBe("good");
+      expect(qualityEvents(stub)).toEqual(["good"]);
+    });
+
+    it("consumes pongs instead of passing them to onMessageFn", () => {
+      const { receive } = createWithPing();
+
+      vi.advanceTimersByTime(1000);
+      receive({ pong: 0 });
+      receive({ data: "update" });
+
+      expect(onMessageFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("signals degradation when pings get lost", () => {
+      const { stub, receive } = createWithPing();
+
+      vi.advanceTimersByTime(1000);
+      receive({ pong: 0 });
+      vi.advanceTimersByTime(3000);
+
+      expect(subject.rtt.loss).toBeCloseTo(0.67, 2);
+      expect(subject.quality).toBe("degraded");
+      expect(qualityEvents(stub)).toEqual(["good", "degraded"]);
+    });
+
+    it("stops pinging and forgets the quality when the connection drops", () => {
+      const { stub, receive } = createWithPing();
+      vi.advanceTimersByTime(1000);
+      receive({ pong: 0 });
+
+      emitStateChange(ConnectionState.Reconnecting);
+      vi.advanceTimersByTime(5000);
+
+      expect(fakeSocket.send).toHaveBeenCalledTimes(1);
+      expect(subject.quality).toBe("unknown");
+      expect(qualityEvents(stub)).toEqual(["good", "unknown"]);
+    });
+  });
+
+  describe("stats", () => {
+    it("counts traffic and RPC latency", async () => {
+      const stub = getLastAlwaysConnectedInstance();
+      stub.websocket = fakeSocket;
+      emitStateChange(ConnectionState.Connected);
+      stub.__ctorArgs.createWsFactory();
+      const onMessageHandler = mockCreateWebSocket.mock.calls[0][2];
+      const command: RemoteCommand = {
+        execute: vi.fn((ws) => {
+          ws.send("request");
+          return "rpc-1";
+        }),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn(),
+      };
+
+      const callPromise = subject.call(command);
+      vi.advanceTimersByTime(40);
+      onMessageHandler(fakeSocket, { data: "héllo" } as MessageEvent);
+      subject.tryHandleAsControlMessage({ id: "rpc-1" });
+      await callPromise;
+
+      const stats = subject.getStats();
+      expect(stats).toMatchObject({
+        state: ConnectionState.Connected,
+        connections: 1,
+        messagesIn: 1,
+        bytesIn: 6,
+        messagesOut: 1,
+        bytesOut: 7,
+        rpcFailures: 0,
+      });
+      expect(stats.rpc).toMatchObject({ count: 1, min: 40, p95: 40 });
+    });
+
+    it("counts scheduled reconnects", () => {
+      const stub = getLastAlwaysConnectedInstance();
+      const [, listener] = stub.addEventListener.mock.calls.find(
+        ([type]) => type === "reconnectscheduled",
+      );
+
+      listener({ attempt: 1, delay: 1000 });
+
+      expect(subject.getStats().reconnects).toBe(1);
+    });
+
+    it("dispatches periodic stats events while active", () => {
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { statsInterval: 1000 },
+      );
+      const stub = getLastAlwaysConnectedInstance();
+      const statsEvents = () =>
+        stub.dispatchEvent.mock.calls.filter(([ev]) => ev.type === "stats");
+
+      subject.activate();
+      vi.advanceTimersByTime(2000);
+      expect(statsEvents()).toHaveLength(2);
+      expect(statsEvents()[0][0].stats).toMatchObject({ reconnects: 0 });
+
+      subject.shutdown();
+      vi.advanceTimersByTime(2000);
+      expect(statsEvents()).toHaveLength(2);
+    });
+  });
+
+  describe("logging", () => {
+    beforeEach(() => {
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+    });
+
+    it("reports RPC completions to the configured logger", async () => {
+      // Arrange
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { logger },
+      );
+      const stub = getLastAlwaysConnectedInstance();
+      stub.state = ConnectionState.Connected;
+      const command: RemoteCommand = {
+        execute: vi.fn().mockReturnValue("rpc-1"),
+        responseMatches: vi.fn().mockReturnValue(true),
+        handleResponse: vi.fn(),
+      };
+
+      // Act
+      const callPromise = subject.call(command);
+      vi.advanceTimersByTime(25);
+      subject.tryHandleAsControlMessage({ id: "rpc-1" });
+      await callPromise;
+      stub.__ctorArgs.createWsFactory();
+
+      // Assert
+      expect(logger.debug).toHaveBeenCalledWith("Command completed", {
+        command: "Object",
+        rpcId: "rpc-1",
+        elapsed: 25,
+      });
+      expect(stub.__ctorArgs.options).toMatchObject({ logger });
+      expect(mockCreateWebSocket.mock.calls[0][3]).toBe(logger);
+    });
+  });
+
+  describe("in-flight commands on connection loss", () => {
+    beforeEach(() => {
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+    });
+
+    const createCommand = (id: string): RemoteCommand => ({
+      execute: vi.fn().mockReturnValue(id),
+      responseMatches: vi
+        .fn()
+        .mockImplementation(
+          (message: unknown) => (message as { id: string }).id === id,
+        ),
+      handleResponse: vi.fn().mockReturnValue("done"),
+    });
+
+    it("rejects pending commands with ConnectionLostError by default", async () => {
+      // Arrange
+      const callPromise = subject.call(createCommand("rpc-1"));
+
+      // Act
+      emitStateChange(ConnectionState.Reconnecting);
+
+      // Assert
+      await expect(callPromise).rejects.toMatchObject({
+        name: "ConnectionLostError",
+      });
+      expect(subject.tryHandleAsControlMessage({ id: "rpc-1" })).toBe(false);
+    });
+
+    it("re-executes commands once the connection is back", async () => {
+      // Arrange
+      const command = createCommand("rpc-2");
+      const callPromise = subject.call(command, {
+        onConnectionLost: "reexecute",
+      });
+
+      // Act
+      emitStateChange(ConnectionState.Reconnecting);
+      const matchedWhileDown = subject.tryHandleAsControlMessage({
+        id: "rpc-2",
+      });
+      emitStateChange(ConnectionState.Limbo);
+      emitStateChange(ConnectionState.Connected);
+      subject.tryHandleAsControlMessage({ id: "rpc-2" });
+
+      // Assert
+      expect(matchedWhileDown).toBe(false);
+      expect(command.execute).toHaveBeenCalledTimes(2);
+      await expect(callPromise).resolves.toBe("done");
+    });
+
+    it("uses the onConnectionLost default from options", async () => {
+      // Arrange
+      subject = new GreatWebSocketClass(
+        "wss://example.test/socket",
+        onConnectedFn,
+        onMessageFn,
+        sendHeartbeatFn,
+        { onConnectionLost: "reexecute" },
+      );
+      getLastAlwaysConnectedInstance().state = ConnectionState.Connected;
+      const command = createCommand("rpc-3");
+      subject.call(command);
+
+      // Act
+      emitStateChange(ConnectionState.Reconnecting);
+      emitStateChange(ConnectionState.Connected);
+
+      // Assert
+      expect(command.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects everything on shutdown, including re-executable commands", async () => {
+      // Arrange
+      const first = subject.call(createCommand("rpc-4"));
+      const second = subject.call(createCommand("rpc-5"), {
+        onConnectionLost: "reexecute",
+      });
+
+      // Act
+      subject.shutdown();
+
+      // Assert
+      await expect(first).rejects.toMatchObject({
+        name: "ConnectionLostError",
+      });
+      await expect(second).rejects.toMatchObject({
+        name: "ConnectionLostError",
+      });
+    });
+
+    it("fails and forgets commands whose execute() throws", async () => {
+      // Arrange
+      const error = new Error("outbox full");
+      const command = createCommand("rpc-10");
+      vi.mocked(command.execute).mockImplementation(() => {
+        throw error;
+      });
+
+      // Act
+      const callPromise = subject.call(command, {
+        onConnectionLost: "reexecute",
+      });
+      emitStateChange(ConnectionState.Reconnecting);
+      emitStateChange(ConnectionState.Connected);
+
+      // Assert
+      await expect(callPromise).rejects.toBe(error);
+      expect(command.execute).toHaveBeenCalledTimes(1);
+      const completions = getLastAlwaysConnectedInstance()
+        .dispatchEvent.mock.calls.map(([ev]) => ev)
+        .filter((ev) => ev.type === "rpccomplete");
+      expect(completions).toHaveLength(1);
+      expect(completions[0]).toMatchObject({ succeeded: false, error });
+    });
+
+    it("rejects re-executable commands when the connection fails for good", async () => {
+      // Arrange
+      const pending = subject.call(createCommand("rpc-8"), {
+        onConnectionLost: "reexecute",
+      });
+
+      // Act
+      emitStateChange(ConnectionState.Error);
+      const later = subject.call(createCommand("rpc-9"), {
+        onConnectionLost: "reexecute",
+      });
+
+      // Assert
+      await expect(pending).rejects.toMatchObject({
+        name: "ConnectionLostError",
+      });
+      await expect(later).rejects.toMatchObject({
+        name: "ConnectionLostError",
+      });
+    });
+
+    it("rejects calls made while not connected without executing them", async () => {
+      // Arrange
+      emitStateChange(ConnectionState.Reconnecting);
+      const command = createCommand("rpc-6");
+
+      // Act
+      const callPromise = subject.call(command);
+
+      // Assert
+      await expect(callPromise).rejects.toMatchObject({
+        name: "ConnectionLostError",
+      });
+      expect(command.execute).not.toHaveBeenCalled();
+    });
+
+    it("defers re-executable calls made while not connected", async () => {
+      // Arrange
+      emitStateChange(ConnectionState.Reconnecting);
+      const command = createCommand("rpc-7");
+      const callPromise = subject.call(command, {
+        onConnectionLost: "reexecute",
+      });
+      const executedWhileDown = vi.mocked(command.execute).mock.calls.length;
+
+      // Act
+      emitStateChange(ConnectionState.Limbo);
+      emitStateChange(ConnectionState.Connected);
+      subject.tryHandleAsControlMessage({ id: "rpc-7" });
+
+      // Assert
+      expect(executedWhileDown).toBe(0);
+      expect(command.execute).toHaveBeenCalledTimes(1);
+      await expect(callPromise).resolves.toBe("done");
+    });
   });
 });